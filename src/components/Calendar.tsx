@@ -1,170 +1,233 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
 import { Button } from "@/components/ui/button";
-import { Plus, Calendar as CalendarIcon, List } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Plus, Calendar as CalendarIcon, CalendarDays, List, FolderPlus, Download, Upload, Printer, CalendarOff, Landmark, Columns3, Users } from "lucide-react";
+import { useCalendarStore } from "@/hooks/use-calendar-store";
+import { useToast } from "@/hooks/use-toast";
+import { CaseInput, HearingInput, isHearingSnapshotCurrent, selectHearingSnapshot } from "@/lib/calendar-store";
+import { findConflicts, getConflictingEventIds } from "@/lib/conflicts";
+import { isSameSlot, Slot } from "@/lib/reschedule";
+import { formatTime12Hour } from "@/lib/timeline";
+import { DocketRange } from "@/lib/docket";
+import { RecurrenceScope } from "@/lib/recurrence";
+import { getMovedStatus } from "@/lib/statuses";
+import { buildFollowUpDraft, FollowUpDraft } from "@/lib/outcomes";
+import { createBackup } from "@/lib/storage";
+import { downloadFile } from "@/lib/download";
+import { CalendarView, Case, Event, EventType, HearingRecord } from "@/types/calendar";
 import WeeklyView from './WeeklyView';
+import MonthView from './MonthView';
 import ListView from './ListView';
+import ResourceLaneView from './ResourceLaneView';
 import EventModal from './EventModal';
+import CaseModal from './CaseModal';
+import IcsExportDialog, { ExportRequest } from './IcsExportDialog';
+import IcsImportDialog from './IcsImportDialog';
+import CsvImportDialog from './CsvImportDialog';
+import RestoreBackupDialog from './RestoreBackupDialog';
+import DocketReport from './DocketReport';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import PdfExportDialog, { PdfRequest } from './PdfExportDialog';
+import CsvExportDialog, { CsvExportRequest } from './CsvExportDialog';
+import DeadlineRulesDialog from './DeadlineRulesDialog';
+import ClosuresDialog from './ClosuresDialog';
+import ResourcesDialog from './ResourcesDialog';
+import PeopleDialog from './PeopleDialog';
 
-export interface Hearing {
-  id: string;
-  title: string;
-  notes: string;
-  date: Date;
-  startTime: string;
-  endTime: string;
-  status: 'new' | 'rescheduled' | 'cancelled';
-}
-
-export interface Case {
-  id: string;
-  caseNumber: string;
-  title: string;
-  description: string;
-  tags: string[];
-  hearings: Hearing[];
-}
-
-// For compatibility with existing components, we'll flatten cases into events
-export interface Event {
-  id: string;
-  title: string;
-  description: string;
-  notes: string;
-  date: Date;
-  startTime: string;
-  endTime: string;
-  type: 'hearing';
-  status: 'new' | 'rescheduled' | 'cancelled';
-  caseNumber: string;
-  parentId?: string;
-  children?: Event[];
-}
+export type { Hearing, Case, Event } from "@/types/calendar";
 
 const Calendar = () => {
-  const [view, setView] = useState<'weekly' | 'list'>('weekly');
-  const [cases, setCases] = useState<Case[]>([]);
-  const [events, setEvents] = useState<Event[]>([]);
+  const {
+    cases,
+    events,
+    tags,
+    settings,
+    closureCalendars,
+    closures,
+    resources,
+    people,
+    updateSettings,
+    restore,
+    state,
+    saveHearing,
+    importHearings,
+    importCases,
+    deleteHearing,
+    undoHearingChange,
+    saveOccurrence,
+    saveOutcome,
+    generateDeadlines,
+    deleteOccurrence,
+    saveCase,
+    setCaseStatus,
+    addCaseTag,
+    removeCaseTag,
+    importClosures,
+    saveClosure,
+    deleteClosure,
+    deleteClosureCalendar,
+    saveCourthouse,
+    deleteCourthouse,
+    saveCourtroom,
+    deleteCourtroom,
+    saveJudge,
+    deleteJudge,
+    savePerson,
+    deletePerson
+  } = useCalendarStore();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [followUpDraft, setFollowUpDraft] = useState<FollowUpDraft | null>(null);
+  const [isCaseModalOpen, setIsCaseModalOpen] = useState(false);
+  const [editingCase, setEditingCase] = useState<Case | null>(null);
+  const [exportRequest, setExportRequest] = useState<ExportRequest | null>(null);
+  const [deadlineTrigger, setDeadlineTrigger] = useState<Event | null>(null);
+  const [csvExportRequest, setCsvExportRequest] = useState<CsvExportRequest | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const [isClosuresOpen, setIsClosuresOpen] = useState(false);
+  const [isResourcesOpen, setIsResourcesOpen] = useState(false);
+  const [isPeopleOpen, setIsPeopleOpen] = useState(false);
+  const [pdfRequest, setPdfRequest] = useState<PdfRequest | null>(null);
+  const [docketRange, setDocketRange] = useState<DocketRange | null>(null);
+  // Edit or delete of a recurring hearing occurrence, waiting for the user to pick its scope
+  const [pendingSeriesChange, setPendingSeriesChange] = useState<{
+    action: 'edit' | 'delete';
+    event: Event;
+    input?: HearingInput;
+  } | null>(null);
   const [currentWeek, setCurrentWeek] = useState(new Date());
+  // The latest move that can still be undone; the records it left are filled in once it has been saved
+  const undoableMove = useRef<{ eventId: string; after?: HearingRecord[]; dismiss: () => void } | null>(null);
+  const { toast } = useToast();
+  const conflictIds = useMemo(() => getConflictingEventIds(events), [events]);
 
-  // Sample cases with hearings that have statuses and tags
+  // Undo puts back the records from before the move, which would throw away any edit made since, so the
+  // Undo goes away as soon as the hearing or its deadlines change again
   useEffect(() => {
-    const sampleCases: Case[] = [
-      {
-        id: '1',
-        caseNumber: '2024-001',
-        title: 'Smith vs. Johnson Contract Dispute',
-        description: 'Contract dispute regarding construction services',
-        tags: ['contract', 'construction', 'dispute', 'commercial'],
-        hearings: [
-          {
-            id: '1-h1',
-            title: 'Initial Hearing',
-            notes: 'Bring all preliminary documents and evidence',
-            date: new Date(),
-            startTime: '09:00',
-            endTime: '10:30',
-            status: 'new'
-          },
-          {
-            id: '1-h2',
-            title: 'Evidence Review Hearing',
-            notes: 'Schedule moved due to judge availability',
-            date: new Date(),
-            startTime: '11:00',
-            endTime: '12:30',
-            status: 'rescheduled'
-          },
-          {
-            id: '1-h3',
-            title: 'Closing Arguments',
-            notes: 'Prepare final statement summary',
-            date: new Date(),
-            startTime: '14:00',
-            endTime: '16:00',
-            status: 'new'
-          }
-        ]
-      },
-      {
-        id: '2',
-        caseNumber: '2024-002',
-        title: 'Williams Personal Injury Case',
-        description: 'Personal injury claim from vehicle accident',
-        tags: ['personal-injury', 'accident', 'insurance', 'medical'],
-        hearings: [
-          {
-            id: '2-h1',
-            title: 'Settlement Conference',
-            notes: 'Cancelled due to plaintiff unavailability',
-            date: new Date(Date.now() + 86400000),
-            startTime: '10:00',
-            endTime: '15:00',
-            status: 'cancelled'
-          },
-          {
-            id: '2-h2',
-            title: 'Mediation Hearing',
-            notes: 'Court-ordered mediation attempt',
-            date: new Date(Date.now() + 172800000),
-            startTime: '09:00',
-            endTime: '12:00',
-            status: 'new'
-          }
-        ]
-      }
-    ];
-
-    setCases(sampleCases);
-
-    // Convert cases to events for compatibility with existing components
-    const flattenedEvents: Event[] = [];
-    sampleCases.forEach(caseItem => {
-      // Add hearings as events (no separate statuses, as hearings have their own status)
-      caseItem.hearings.forEach(hearing => {
-        flattenedEvents.push({
-          id: hearing.id,
-          title: `${caseItem.caseNumber}: ${hearing.title}`,
-          description: caseItem.description,
-          notes: hearing.notes,
-          date: hearing.date,
-          startTime: hearing.startTime,
-          endTime: hearing.endTime,
-          type: 'hearing',
-          status: hearing.status,
-          caseNumber: caseItem.caseNumber,
-          parentId: caseItem.id
-        });
-      });
-    });
+    const move = undoableMove.current;
+    if (!move) return;
+    if (!move.after) {
+      move.after = selectHearingSnapshot(state, move.eventId);
+    } else if (!isHearingSnapshotCurrent(state, move.eventId, move.after)) {
+      move.dismiss();
+      undoableMove.current = null;
+    }
+  }, [state]);
 
-    setEvents(flattenedEvents);
-  }, []);
+  // The active view is a persisted setting, so it survives reloads and travels with backups
+  const view = settings.view;
+  const setView = (nextView: CalendarView) => updateSettings({ view: nextView });
+
+  const handleBackup = () => {
+    downloadFile(`calendar-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, createBackup(state), 'application/json');
+  };
 
-  const handleAddEvent = (eventData: Omit<Event, 'id'>) => {
-    const newEvent: Event = {
-      ...eventData,
-      id: Date.now().toString()
-    };
-    setEvents(prev => [...prev, newEvent]);
+  const handleAddEvent = (eventData: HearingInput) => {
+    saveHearing(eventData);
     setIsModalOpen(false);
+    setFollowUpDraft(null);
   };
 
-  const handleEditEvent = (eventData: Omit<Event, 'id'>) => {
+  const handleEditEvent = (eventData: HearingInput) => {
     if (editingEvent) {
-      setEvents(prev => prev.map(event => 
-        event.id === editingEvent.id 
-          ? { ...eventData, id: editingEvent.id }
-          : event
-      ));
+      if (editingEvent.seriesId) {
+        setPendingSeriesChange({ action: 'edit', event: editingEvent, input: eventData });
+      } else {
+        saveHearing(eventData, editingEvent.id);
+      }
       setEditingEvent(null);
       setIsModalOpen(false);
     }
   };
 
   const handleDeleteEvent = (eventId: string) => {
-    setEvents(prev => prev.filter(event => event.id !== eventId));
+    const event = events.find(e => e.id === eventId);
+    if (event?.seriesId) {
+      setPendingSeriesChange({ action: 'delete', event });
+    } else {
+      deleteHearing(eventId);
+    }
+  };
+
+  const handleConfirmSeriesChange = (scope: RecurrenceScope) => {
+    if (!pendingSeriesChange) return;
+
+    const { action, event, input } = pendingSeriesChange;
+    if (action === 'edit') {
+      saveOccurrence(event.seriesId, event.occurrenceKey, input, scope);
+    } else {
+      deleteOccurrence(event.seriesId, event.occurrenceKey, scope);
+    }
+    setPendingSeriesChange(null);
+  };
+
+  // Saves an event back to its hearing; occurrences of a series only change themselves
+  const saveEvent = (event: Event, input: HearingInput) => {
+    if (event.seriesId) {
+      saveOccurrence(event.seriesId, event.occurrenceKey, input, 'this');
+    } else {
+      saveHearing(input, event.id);
+    }
+  };
+
+  // Drag-and-drop and keyboard moves from WeeklyView; every move puts the hearing in its moved status and can be undone
+  const handleRescheduleEvent = (event: Event, slot: Slot) => {
+    if (isSameSlot(event, slot)) return;
+
+    const { id: _id, ...previous } = event;
+    const snapshot = selectHearingSnapshot(state, event.id);
+    const status = getMovedStatus(event.status);
+    saveEvent(event, { ...previous, ...slot, status });
+    const conflicts = findConflicts({ ...event, ...slot, status }, events);
+
+    const { dismiss } = toast({
+      title: conflicts.length > 0
+        ? `Hearing rescheduled, conflicts with ${conflicts.length} hearing${conflicts.length !== 1 ? 's' : ''}`
+        : 'Hearing rescheduled',
+      description: `${event.title} moved to ${slot.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, ${formatTime12Hour(slot.startTime)} - ${formatTime12Hour(slot.endTime)}`,
+      action: (
+        <ToastAction
+          altText="Undo reschedule"
+          onClick={() => {
+            undoableMove.current = null;
+            undoHearingChange(snapshot);
+          }}
+        >
+          Undo
+        </ToastAction>
+      )
+    });
+    undoableMove.current = { eventId: event.id, dismiss };
+  };
+
+  const handleSaveCase = (caseData: CaseInput) => {
+    saveCase(caseData, editingCase?.id);
+    setEditingCase(null);
+    setIsCaseModalOpen(false);
+  };
+
+  const openCaseModal = (caseItem: Case | null = null) => {
+    setEditingCase(caseItem);
+    setIsCaseModalOpen(true);
+  };
+
+  const closeCaseModal = () => {
+    setIsCaseModalOpen(false);
+    setEditingCase(null);
+  };
+
+  // Clicking a day in the month grid drills into that day's week
+  const handleSelectDay = (date: Date) => {
+    setCurrentWeek(date);
+    setView('weekly');
+  };
+
+  const handleExportEvents = (eventsToExport: Event[], label: string) => {
+    setExportRequest({ events: eventsToExport, label });
   };
 
   const openEditModal = (event: Event) => {
@@ -174,14 +237,36 @@ const Calendar = () => {
 
   const openAddModal = () => {
     setEditingEvent(null);
+    setFollowUpDraft(null);
+    setIsModalOpen(true);
+  };
+
+  // New hearing or deadline on the same case, pre-filled from the hearing's outcome
+  const openFollowUpModal = (event: Event, type: EventType) => {
+    setEditingEvent(null);
+    setFollowUpDraft(buildFollowUpDraft(event, type));
     setIsModalOpen(true);
   };
 
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingEvent(null);
+    setFollowUpDraft(null);
   };
 
+  // The docket replaces the whole screen so nothing else ends up on paper
+  if (docketRange) {
+    return (
+      <DocketReport
+        events={events}
+        cases={cases}
+        initialDate={view === 'weekly' || view === 'lanes' ? currentWeek : new Date()}
+        initialRange={docketRange}
+        onClose={() => setDocketRange(null)}
+      />
+    );
+  }
+
   return (
     <div className="h-screen bg-white text-gray-900 overflow-hidden">
       {/* Header with edexis.com styling */}
@@ -212,6 +297,30 @@ const Calendar = () => {
                   <CalendarIcon className="h-4 w-4 mr-2" />
                   Week
                 </Button>
+                <Button
+                  variant={view === 'month' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('month')}
+                  className={`${view === 'month' 
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-sm' 
+                    : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                  } transition-all duration-200`}
+                >
+                  <CalendarDays className="h-4 w-4 mr-2" />
+                  Month
+                </Button>
+                <Button
+                  variant={view === 'lanes' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setView('lanes')}
+                  className={`${view === 'lanes' 
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-sm' 
+                    : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                  } transition-all duration-200`}
+                >
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Lanes
+                </Button>
                 <Button
                   variant={view === 'list' ? 'default' : 'ghost'}
                   size="sm"
@@ -226,13 +335,112 @@ const Calendar = () => {
                 </Button>
               </div>
             </div>
-            <Button 
-              onClick={openAddModal}
-              className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm border-0 transition-all duration-200"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Hearing
-            </Button>
+            <div className="flex items-center space-x-3">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setIsImportOpen(true)}>
+                    Calendar file (.ics)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setIsCsvImportOpen(true)}>
+                    Spreadsheet (.csv)
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => setIsRestoreOpen(true)}>
+                    Restore backup (.json)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => handleExportEvents(events, 'All hearings')}>
+                    All hearings (.ics)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setPdfRequest({ type: 'docket', date: currentWeek, range: 'week' })}>
+                    Week docket (.pdf)
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={handleBackup}>
+                    Full backup (.json)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+                  >
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setDocketRange('day')}>
+                    Daily docket
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setDocketRange('week')}>
+                    Weekly docket
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                onClick={() => setIsClosuresOpen(true)}
+                className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+              >
+                <CalendarOff className="h-4 w-4 mr-2" />
+                Closures
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsResourcesOpen(true)}
+                className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+              >
+                <Landmark className="h-4 w-4 mr-2" />
+                Courts
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsPeopleOpen(true)}
+                className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                People
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => openCaseModal()}
+                className="border-gray-300 text-gray-700 hover:bg-accent transition-all duration-200"
+              >
+                <FolderPlus className="h-4 w-4 mr-2" />
+                New Case
+              </Button>
+              <Button 
+                onClick={openAddModal}
+                className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm border-0 transition-all duration-200"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Hearing
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -246,13 +454,57 @@ const Calendar = () => {
             onWeekChange={setCurrentWeek}
             onEditEvent={openEditModal}
             onDeleteEvent={handleDeleteEvent}
+            onRescheduleEvent={handleRescheduleEvent}
+            conflictIds={conflictIds}
+            closures={closures}
+            resources={resources}
+            people={people}
+          />
+        ) : view === 'month' ? (
+          <MonthView
+            events={events}
+            currentMonth={currentWeek}
+            onMonthChange={setCurrentWeek}
+            onSelectDay={handleSelectDay}
+            onEditEvent={openEditModal}
+            onDeleteEvent={handleDeleteEvent}
+            conflictIds={conflictIds}
+            closures={closures}
+          />
+        ) : view === 'lanes' ? (
+          <ResourceLaneView
+            events={events}
+            currentDay={currentWeek}
+            onDayChange={setCurrentWeek}
+            onEditEvent={openEditModal}
+            onDeleteEvent={handleDeleteEvent}
+            conflictIds={conflictIds}
+            closures={closures}
+            resources={resources}
+            people={people}
           />
         ) : (
           <ListView 
             events={events}
             cases={cases}
+            tags={tags}
             onEditEvent={openEditModal}
             onDeleteEvent={handleDeleteEvent}
+            onAddTag={addCaseTag}
+            onRemoveTag={removeCaseTag}
+            onEditCase={openCaseModal}
+            onSetCaseStatus={setCaseStatus}
+            onExportEvents={handleExportEvents}
+            onExportCsv={(groups, label) => setCsvExportRequest({ groups, label })}
+            onExportCasePdf={(caseItem) => setPdfRequest({ type: 'case', caseItem })}
+            onSaveOutcome={saveOutcome}
+            onCreateFollowUp={openFollowUpModal}
+            onAddDeadlines={setDeadlineTrigger}
+            conflictIds={conflictIds}
+            closures={closures}
+            resources={resources}
+            people={people}
+            myPersonId={settings.personId}
           />
         )}
       </div>
@@ -263,6 +515,110 @@ const Calendar = () => {
         onClose={closeModal}
         onSave={editingEvent ? handleEditEvent : handleAddEvent}
         event={editingEvent}
+        draft={followUpDraft}
+        existingEvents={events}
+        closures={closures}
+        resources={resources}
+        people={people}
+        userName={settings.userName}
+        onUserNameChange={(userName) => updateSettings({ userName })}
+      />
+      <RecurrenceScopeDialog
+        action={pendingSeriesChange?.action ?? null}
+        onConfirm={handleConfirmSeriesChange}
+        onCancel={() => setPendingSeriesChange(null)}
+      />
+
+      {/* Case Modal */}
+      <CaseModal
+        isOpen={isCaseModalOpen}
+        onClose={closeCaseModal}
+        onSave={handleSaveCase}
+        caseItem={editingCase}
+        existingCaseNumbers={cases.map(caseItem => caseItem.caseNumber)}
+        people={people}
+      />
+
+      {/* Court-rule Deadlines */}
+      <DeadlineRulesDialog
+        trigger={deadlineTrigger}
+        existingEvents={events}
+        closures={closures}
+        onGenerate={generateDeadlines}
+        onClose={() => setDeadlineTrigger(null)}
+      />
+
+      {/* Court Closures */}
+      <ClosuresDialog
+        isOpen={isClosuresOpen}
+        closureCalendars={closureCalendars}
+        closures={closures}
+        onImport={importClosures}
+        onSaveClosure={saveClosure}
+        onDeleteClosure={deleteClosure}
+        onDeleteCalendar={deleteClosureCalendar}
+        onClose={() => setIsClosuresOpen(false)}
+      />
+
+      {/* Courthouses, Courtrooms and Judges */}
+      <ResourcesDialog
+        isOpen={isResourcesOpen}
+        resources={resources}
+        onSaveCourthouse={saveCourthouse}
+        onDeleteCourthouse={deleteCourthouse}
+        onSaveCourtroom={saveCourtroom}
+        onDeleteCourtroom={deleteCourtroom}
+        onSaveJudge={saveJudge}
+        onDeleteJudge={deleteJudge}
+        onClose={() => setIsResourcesOpen(false)}
+      />
+
+      {/* Attorneys and Paralegals */}
+      <PeopleDialog
+        isOpen={isPeopleOpen}
+        people={people}
+        myPersonId={settings.personId}
+        onSavePerson={savePerson}
+        onDeletePerson={deletePerson}
+        onMyPersonChange={(personId) => updateSettings({ personId })}
+        onClose={() => setIsPeopleOpen(false)}
+      />
+
+      {/* Calendar Export */}
+      <IcsExportDialog
+        request={exportRequest}
+        cases={cases}
+        onClose={() => setExportRequest(null)}
+      />
+      <CsvExportDialog
+        request={csvExportRequest}
+        onClose={() => setCsvExportRequest(null)}
+      />
+      <PdfExportDialog
+        request={pdfRequest}
+        events={events}
+        cases={cases}
+        firmName={settings.firmName}
+        onFirmNameChange={(firmName) => updateSettings({ firmName })}
+        onClose={() => setPdfRequest(null)}
+      />
+
+      {/* Calendar Import */}
+      <IcsImportDialog
+        isOpen={isImportOpen}
+        existingEvents={events}
+        onImport={importHearings}
+        onClose={() => setIsImportOpen(false)}
+      />
+      <CsvImportDialog
+        isOpen={isCsvImportOpen}
+        onImport={importCases}
+        onClose={() => setIsCsvImportOpen(false)}
+      />
+      <RestoreBackupDialog
+        isOpen={isRestoreOpen}
+        onRestore={restore}
+        onClose={() => setIsRestoreOpen(false)}
       />
     </div>
   );
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CaseInput } from "@/lib/calendar-store";
+import { PersonRecord } from "@/types/calendar";
+import PeoplePicker from './PeoplePicker';
+import { Case } from './Calendar';
+
+interface CaseFormProps {
+  onSave: (caseData: CaseInput) => void;
+  onCancel: () => void;
+  initialCase?: Case | null;
+  existingCaseNumbers: string[];
+  people?: PersonRecord[];
+}
+
+const CaseForm: React.FC<CaseFormProps> = ({
+  onSave,
+  onCancel,
+  initialCase,
+  existingCaseNumbers,
+  people = []
+}) => {
+  const [formData, setFormData] = useState({
+    caseNumber: '',
+    title: '',
+    description: '',
+    tags: '',
+    assigneeIds: [] as string[]
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialCase) {
+      setFormData({
+        caseNumber: initialCase.caseNumber,
+        title: initialCase.title,
+        description: initialCase.description,
+        tags: initialCase.tags.join(', '),
+        assigneeIds: initialCase.assigneeIds ?? []
+      });
+    }
+  }, [initialCase]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const caseNumber = formData.caseNumber.trim();
+    if (!caseNumber || !formData.title.trim()) return;
+
+    // Hearings are matched to cases by number, so it has to stay unique
+    const isDuplicate = existingCaseNumbers.some(
+      number => number === caseNumber && number !== initialCase?.caseNumber
+    );
+    if (isDuplicate) {
+      setError(`Case ${caseNumber} already exists`);
+      return;
+    }
+
+    onSave({
+      caseNumber,
+      title: formData.title.trim(),
+      description: formData.description.trim(),
+      tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      assigneeIds: formData.assigneeIds
+    });
+  };
+
+  const handleChange = (field: string, value: string | string[]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="caseNumber" className="text-gray-700">Case Number *</Label>
+        <Input
+          id="caseNumber"
+          value={formData.caseNumber}
+          onChange={(e) => handleChange('caseNumber', e.target.value)}
+          placeholder="e.g., 2024-001"
+          className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+            focus:border-blue-500 focus:ring-blue-500"
+          required
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="caseTitle" className="text-gray-700">Case Title *</Label>
+        <Input
+          id="caseTitle"
+          value={formData.title}
+          onChange={(e) => handleChange('title', e.target.value)}
+          placeholder="e.g., Smith vs. Johnson Contract Dispute"
+          className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+            focus:border-blue-500 focus:ring-blue-500"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="caseDescription" className="text-gray-700">Description</Label>
+        <Textarea
+          id="caseDescription"
+          value={formData.description}
+          onChange={(e) => handleChange('description', e.target.value)}
+          placeholder="Enter case description"
+          className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+            focus:border-blue-500 focus:ring-blue-500 min-h-[80px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="caseTags" className="text-gray-700">Tags</Label>
+        <Input
+          id="caseTags"
+          value={formData.tags}
+          onChange={(e) => handleChange('tags', e.target.value)}
+          placeholder="Comma separated, e.g. contract, commercial"
+          className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+            focus:border-blue-500 focus:ring-blue-500"
+        />
+      </div>
+
+      {people.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-gray-700">Team</Label>
+          <PeoplePicker
+            people={people}
+            selected={formData.assigneeIds}
+            onChange={(assigneeIds) => handleChange('assigneeIds', assigneeIds)}
+            label="Team"
+          />
+          <p className="text-xs text-gray-500">Covers every hearing in the case unless a hearing names its own people.</p>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onCancel}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          {initialCase ? 'Update Case' : 'Create Case'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CaseForm;
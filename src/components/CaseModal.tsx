@@ -0,0 +1,50 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CaseInput } from "@/lib/calendar-store";
+import { PersonRecord } from "@/types/calendar";
+import CaseForm from './CaseForm';
+import { Case } from './Calendar';
+
+interface CaseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (caseData: CaseInput) => void;
+  caseItem?: Case | null;
+  existingCaseNumbers: string[];
+  people?: PersonRecord[];
+}
+
+const CaseModal: React.FC<CaseModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  caseItem,
+  existingCaseNumbers,
+  people
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            {caseItem ? 'Edit Case' : 'Add New Case'}
+          </DialogTitle>
+        </DialogHeader>
+        <CaseForm
+          onSave={onSave}
+          onCancel={onClose}
+          initialCase={caseItem}
+          existingCaseNumbers={existingCaseNumbers}
+          people={people}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CaseModal;
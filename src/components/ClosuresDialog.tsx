@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ClosureFile, ClosureInput, formatClosureDays, readClosureFile } from "@/lib/closures";
+import { fromDateInputValue } from "@/lib/dates";
+import { ClosureCalendarRecord, ClosureRecord } from "@/types/calendar";
+
+interface ClosuresDialogProps {
+  isOpen: boolean;
+  closureCalendars: ClosureCalendarRecord[];
+  closures: ClosureRecord[];
+  onImport: (file: ClosureFile) => void;
+  onSaveClosure: (input: ClosureInput) => void;
+  onDeleteClosure: (closureId: string) => void;
+  onDeleteCalendar: (calendarId: string) => void;
+  onClose: () => void;
+}
+
+// Holiday calendars and one-off closures; closed days are shaded in every view and skipped by court-day deadlines
+const ClosuresDialog: React.FC<ClosuresDialogProps> = ({
+  isOpen,
+  closureCalendars,
+  closures,
+  onImport,
+  onSaveClosure,
+  onDeleteClosure,
+  onDeleteCalendar,
+  onClose
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [calendarName, setCalendarName] = useState('');
+  const [closureName, setClosureName] = useState('');
+  const [closureDate, setClosureDate] = useState('');
+  const [closureEndDate, setClosureEndDate] = useState('');
+
+  const { file, error } = useMemo(() => {
+    if (!fileText) return { file: null, error: null };
+    try {
+      return { file: readClosureFile(fileName, fileText), error: null };
+    } catch (readError) {
+      return { file: null, error: readError instanceof Error ? readError.message : String(readError) };
+    }
+  }, [fileName, fileText]);
+
+  const adHocClosures = closures.filter(closure => !closure.calendarId);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFileName(selected.name);
+    setFileText(await selected.text());
+    setCalendarName('');
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    onImport({ ...file, name: calendarName.trim() || file.name || fileName.replace(/\.[^.]+$/, '') });
+    setFileName('');
+    setFileText('');
+  };
+
+  const handleAddClosure = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closureName.trim() || !closureDate) return;
+    onSaveClosure({
+      name: closureName,
+      date: fromDateInputValue(closureDate),
+      endDate: closureEndDate ? fromDateInputValue(closureEndDate) : undefined
+    });
+    setClosureName('');
+    setClosureDate('');
+    setClosureEndDate('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Court Closures
+          </DialogTitle>
+          <DialogDescription>
+            Closed days are shaded on the calendar, flagged when scheduling, and skipped when counting court days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-gray-700">Holiday calendars</div>
+          {closureCalendars.length === 0 ? (
+            <p className="text-xs text-gray-500">None imported yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+              {closureCalendars.map(calendar => {
+                const count = closures.filter(closure => closure.calendarId === calendar.id).length;
+                return (
+                  <li key={calendar.id} className="flex items-center justify-between px-3 py-2">
+                    <span>
+                      <span className="font-medium text-gray-900">{calendar.name}</span>
+                      <span className="text-xs text-gray-500"> &middot; {count} closure{count !== 1 ? 's' : ''}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Remove ${calendar.name}`}
+                      onClick={() => onDeleteCalendar(calendar.id)}
+                      className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="space-y-2 pt-1">
+            <Label htmlFor="closureFile" className="text-gray-700">Import .ics or .json</Label>
+            <Input
+              id="closureFile"
+              type="file"
+              accept=".ics,.json,text/calendar,application/json"
+              onChange={handleFileChange}
+              className="bg-white border-gray-300 text-gray-900"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {file && (
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={calendarName}
+                  onChange={(e) => setCalendarName(e.target.value)}
+                  placeholder={file.name || fileName.replace(/\.[^.]+$/, '')}
+                  aria-label="Calendar name"
+                  className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                    focus:border-blue-500 focus:ring-blue-500"
+                />
+                <Button onClick={handleImport} className="bg-blue-600 hover:bg-blue-700 text-white shrink-0">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import {file.closures.length}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium text-gray-700">Other closures</div>
+          {adHocClosures.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+              {adHocClosures.map(closure => (
+                <li key={closure.id} className="flex items-center justify-between px-3 py-2">
+                  <span>
+                    <span className="font-medium text-gray-900">{closure.name}</span>
+                    <span className="text-xs text-gray-500"> &middot; {formatClosureDays(closure)}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove ${closure.name}`}
+                    onClick={() => onDeleteClosure(closure.id)}
+                    className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddClosure} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-end">
+            <Input
+              value={closureName}
+              onChange={(e) => setClosureName(e.target.value)}
+              placeholder="e.g. Weather closure"
+              aria-label="Closure name"
+              className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                focus:border-blue-500 focus:ring-blue-500"
+            />
+            <Input
+              type="date"
+              value={closureDate}
+              onChange={(e) => setClosureDate(e.target.value)}
+              aria-label="First closed day"
+              className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+            />
+            <Input
+              type="date"
+              value={closureEndDate}
+              min={closureDate}
+              onChange={(e) => setClosureEndDate(e.target.value)}
+              aria-label="Last closed day (optional)"
+              className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!closureName.trim() || !closureDate}
+              aria-label="Add closure"
+              className="border-gray-300 text-gray-700 hover:bg-accent"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClosuresDialog;
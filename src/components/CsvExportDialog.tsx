@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CsvExportGroup, CsvLayout, exportToCsv, getCsvColumns } from "@/lib/csv/export";
+import { downloadFile, toFileName } from "@/lib/download";
+
+export interface CsvExportRequest {
+  label: string;
+  groups: CsvExportGroup[];
+}
+
+interface CsvExportDialogProps {
+  request: CsvExportRequest | null;
+  onClose: () => void;
+}
+
+const layoutOptions: { value: CsvLayout; label: string }[] = [
+  { value: 'hearing', label: 'One row per hearing' },
+  { value: 'case', label: 'One row per case' }
+];
+
+const CsvExportDialog: React.FC<CsvExportDialogProps> = ({
+  request,
+  onClose
+}) => {
+  const [layout, setLayout] = useState<CsvLayout>('hearing');
+  const [fileFormat, setFileFormat] = useState<'csv' | 'excel'>('excel');
+  // Unchecked columns per layout, so switching layouts keeps each selection
+  const [hiddenColumns, setHiddenColumns] = useState<Record<CsvLayout, string[]>>({ hearing: [], case: [] });
+
+  const columns = getCsvColumns(layout);
+  const selectedColumns = columns
+    .map(column => column.key)
+    .filter(key => !hiddenColumns[layout].includes(key));
+
+  const rowCount = layout === 'hearing'
+    ? request?.groups.reduce((total, group) => total + group.hearings.length, 0) ?? 0
+    : request?.groups.length ?? 0;
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setHiddenColumns(prev => ({
+      ...prev,
+      [layout]: checked ? prev[layout].filter(hidden => hidden !== key) : [...prev[layout], key]
+    }));
+  };
+
+  const handleDownload = () => {
+    if (!request) return;
+
+    const content = exportToCsv(request.groups, {
+      layout,
+      columns: selectedColumns,
+      excel: fileFormat === 'excel'
+    });
+    downloadFile(`${toFileName(request.label)}.csv`, content, 'text/csv;charset=utf-8');
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Export to Spreadsheet (.csv)
+          </DialogTitle>
+          <DialogDescription>
+            {request?.label}: {rowCount} row{rowCount !== 1 ? 's' : ''}, exactly as the list currently shows them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csvLayout" className="text-gray-700">Layout</Label>
+              <Select value={layout} onValueChange={(value) => setLayout(value as CsvLayout)}>
+                <SelectTrigger id="csvLayout" className="bg-white border-gray-300 text-gray-900
+                  focus:border-blue-500 focus:ring-blue-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-gray-200">
+                  {layoutOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value} className="text-foreground hover:bg-accent">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csvFormat" className="text-gray-700">Format</Label>
+              <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as 'csv' | 'excel')}>
+                <SelectTrigger id="csvFormat" className="bg-white border-gray-300 text-gray-900
+                  focus:border-blue-500 focus:ring-blue-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-gray-200">
+                  <SelectItem value="excel" className="text-foreground hover:bg-accent">CSV for Excel (UTF-8 BOM)</SelectItem>
+                  <SelectItem value="csv" className="text-foreground hover:bg-accent">Plain CSV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-700">Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {columns.map(column => (
+                <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <Checkbox
+                    checked={selectedColumns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <span>{column.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={rowCount === 0 || selectedColumns.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,255 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CsvDelimiter, detectDelimiter, readCsvTable } from "@/lib/csv/parse";
+import { buildCsvImport, ColumnMapping, CSV_FIELDS, CsvField, guessMapping } from "@/lib/csv/import";
+import { Case } from './Calendar';
+
+interface CsvImportDialogProps {
+  isOpen: boolean;
+  onImport: (cases: Case[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'file' | 'mapping' | 'review';
+
+const delimiterOptions: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+const UNMAPPED = 'none';
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+  isOpen,
+  onImport,
+  onClose
+}) => {
+  const [step, setStep] = useState<Step>('file');
+  const [fileText, setFileText] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+
+  const table = useMemo(() => (fileText ? readCsvTable(fileText, delimiter) : null), [fileText, delimiter]);
+  const result = useMemo(
+    () => (table && step === 'review' ? buildCsvImport(table, mapping) : null),
+    [table, mapping, step]
+  );
+
+  const missingFields = CSV_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+  const hearingCount = result?.cases.reduce((total, caseItem) => total + caseItem.hearings.length, 0) ?? 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const detected = detectDelimiter(text);
+    setFileText(text);
+    setDelimiter(detected);
+    setMapping(guessMapping(readCsvTable(text, detected).headers));
+  };
+
+  const handleDelimiterChange = (value: CsvDelimiter) => {
+    setDelimiter(value);
+    setMapping(guessMapping(readCsvTable(fileText, value).headers));
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping(prev => {
+      const { [field]: _previous, ...rest } = prev;
+      return value === UNMAPPED ? rest : { ...rest, [field]: Number(value) };
+    });
+  };
+
+  const handleClose = () => {
+    setStep('file');
+    setFileText('');
+    setMapping({});
+    onClose();
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    onImport(result.cases);
+    handleClose();
+  };
+
+  const renderFileStep = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="csvFile" className="text-gray-700">Spreadsheet file</Label>
+        <Input
+          id="csvFile"
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv"
+          onChange={handleFileChange}
+          className="bg-white border-gray-300 text-gray-900"
+        />
+      </div>
+      {table && (
+        <div className="space-y-2">
+          <Label htmlFor="delimiter" className="text-gray-700">Delimiter</Label>
+          <Select value={delimiter} onValueChange={(value) => handleDelimiterChange(value as CsvDelimiter)}>
+            <SelectTrigger id="delimiter" className="bg-white border-gray-300 text-gray-900
+              focus:border-blue-500 focus:ring-blue-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border-gray-200">
+              {delimiterOptions.map(option => (
+                <SelectItem key={option.label} value={option.value} className="text-foreground hover:bg-accent">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {table.headers.length} columns, {table.rows.length} rows detected.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {CSV_FIELDS.map(field => (
+        <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+          <Label htmlFor={`map-${field.key}`} className="text-gray-700">
+            {field.label}{field.required ? ' *' : ''}
+          </Label>
+          <Select
+            value={mapping[field.key] !== undefined ? String(mapping[field.key]) : UNMAPPED}
+            onValueChange={(value) => handleMappingChange(field.key, value)}
+          >
+            <SelectTrigger id={`map-${field.key}`} className="bg-white border-gray-300 text-gray-900
+              focus:border-blue-500 focus:ring-blue-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border-gray-200">
+              <SelectItem value={UNMAPPED} className="text-muted-foreground hover:bg-accent">
+                Not mapped
+              </SelectItem>
+              {table?.headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)} className="text-foreground hover:bg-accent">
+                  {header || `Column ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      {missingFields.length > 0 && (
+        <p className="text-sm text-red-600">
+          Map {missingFields.map(field => field.label.toLowerCase()).join(', ')} to continue.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderReviewStep = () => result && (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      <p className="text-sm text-gray-700">
+        {hearingCount} of {result.rowCount} rows will be imported into {result.cases.length} case{result.cases.length !== 1 ? 's' : ''}.
+      </p>
+      {result.cases.length > 0 && (
+        <div className="rounded-md border border-green-200 bg-green-50 p-3">
+          <ul className="space-y-1">
+            {result.cases.map(caseItem => (
+              <li key={caseItem.caseNumber} className="text-sm text-gray-700">
+                <span className="font-medium text-gray-900">{caseItem.caseNumber}</span>
+                {' · '}
+                {caseItem.hearings.length} hearing{caseItem.hearings.length !== 1 ? 's' : ''}
+                {caseItem.tags.length > 0 && <span className="text-gray-500"> · {caseItem.tags.join(', ')}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {result.errors.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+          <h4 className="flex items-center text-sm font-semibold text-amber-800 mb-2">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {result.errors.length} row{result.errors.length !== 1 ? 's' : ''} skipped
+          </h4>
+          <ul className="space-y-1">
+            {result.errors.map(error => (
+              <li key={error.line} className="text-sm text-amber-800">
+                Line {error.line}: {error.messages.join('; ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-2xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Import Spreadsheet (.csv)
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Step 1 of 3: choose a CSV export of the docket.'}
+            {step === 'mapping' && 'Step 2 of 3: match spreadsheet columns to hearing fields.'}
+            {step === 'review' && 'Step 3 of 3: review the rows before importing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && renderFileStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'review' && renderReviewStep()}
+
+        <div className="flex justify-between pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={step === 'file' ? handleClose : () => setStep(step === 'review' ? 'mapping' : 'file')}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            {step === 'file' ? 'Cancel' : (
+              <>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Back
+              </>
+            )}
+          </Button>
+          {step === 'review' ? (
+            <Button
+              onClick={handleImport}
+              disabled={hearingCount === 0}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import {hearingCount} hearing{hearingCount !== 1 ? 's' : ''}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => setStep(step === 'file' ? 'mapping' : 'review')}
+              disabled={!table || table.rows.length === 0 || (step === 'mapping' && missingFields.length > 0)}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
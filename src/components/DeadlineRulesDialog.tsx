@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ListChecks } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { computeDeadlineDate, DEADLINE_RULE_SETS, describeDeadlineRule } from "@/lib/deadline-rules";
+import { createClosedDayCheck } from "@/lib/closures";
+import { ClosureRecord } from "@/types/calendar";
+import { Event } from './Calendar';
+
+interface DeadlineRulesDialogProps {
+  trigger: Event | null;
+  existingEvents: Event[];
+  closures: ClosureRecord[];
+  onGenerate: (triggerId: string, ruleSetId: string) => void;
+  onClose: () => void;
+}
+
+const DeadlineRulesDialog: React.FC<DeadlineRulesDialogProps> = ({
+  trigger,
+  existingEvents,
+  closures,
+  onGenerate,
+  onClose
+}) => {
+  const [ruleSetId, setRuleSetId] = useState(DEADLINE_RULE_SETS[0].id);
+  const ruleSet = DEADLINE_RULE_SETS.find(option => option.id === ruleSetId);
+  const isClosed = createClosedDayCheck(closures);
+
+  // Rules already applied to this hearing are shown but not added again
+  const isApplied = (ruleId: string) => existingEvents.some(event =>
+    event.deadlineSource?.triggerId === trigger?.id &&
+    event.deadlineSource.ruleSetId === ruleSetId &&
+    event.deadlineSource.ruleId === ruleId
+  );
+  const count = ruleSet?.rules.filter(rule => !isApplied(rule.id)).length ?? 0;
+
+  const handleGenerate = () => {
+    if (!trigger) return;
+    onGenerate(trigger.id, ruleSetId);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!trigger} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Add Deadlines from Court Rules
+          </DialogTitle>
+          <DialogDescription>
+            Counted from {trigger?.title}, {trigger && format(trigger.date, 'EEE, MMM d, yyyy')}. Deadlines move when the
+            hearing is rescheduled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="ruleSet" className="text-gray-700">Rule set</Label>
+          <Select value={ruleSetId} onValueChange={setRuleSetId}>
+            <SelectTrigger id="ruleSet" className="bg-white border-gray-300 text-gray-900
+              focus:border-blue-500 focus:ring-blue-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border-gray-200">
+              {DEADLINE_RULE_SETS.map(option => (
+                <SelectItem key={option.id} value={option.id} className="text-foreground hover:bg-accent">
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {ruleSet && <p className="text-xs text-gray-500">{ruleSet.description}</p>}
+        </div>
+
+        {trigger && ruleSet && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+            {ruleSet.rules.map(rule => (
+              <li key={rule.id} className="flex items-start justify-between px-3 py-2">
+                <div>
+                  <div className="font-medium text-gray-900">{rule.name}</div>
+                  <div className="text-xs text-gray-500">{describeDeadlineRule(rule)}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-gray-900">{format(computeDeadlineDate(trigger.date, rule, isClosed), 'EEE, MMM d, yyyy')}</div>
+                  {isApplied(rule.id) && <div className="text-xs text-gray-500">Already added</div>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={count === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <ListChecks className="h-4 w-4 mr-2" />
+            Add {count} deadline{count !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeadlineRulesDialog;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { addDays, format } from 'date-fns';
+import { ChevronLeft, ChevronRight, Printer, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { stripCasePrefix } from "@/lib/calendar-store";
+import { buildDocket, DocketRange, getDocketTitle } from "@/lib/docket";
+import { getStatus, getStatusLabel } from "@/lib/statuses";
+import { formatTime12Hour } from "@/lib/timeline";
+import { Case, Event } from './Calendar';
+
+interface DocketReportProps {
+  events: Event[];
+  cases: Case[];
+  initialDate: Date;
+  initialRange: DocketRange;
+  onClose: () => void;
+}
+
+// Printable docket; the toolbar is hidden when printing and every day starts on a new page
+const DocketReport: React.FC<DocketReportProps> = ({
+  events,
+  cases,
+  initialDate,
+  initialRange,
+  onClose
+}) => {
+  const [date, setDate] = useState(initialDate);
+  const [range, setRange] = useState<DocketRange>(initialRange);
+  const [includeCancelled, setIncludeCancelled] = useState(true);
+
+  const options = { date, range, includeCancelled };
+  const days = buildDocket(events, cases, options);
+
+  const navigate = (direction: 'prev' | 'next') => {
+    const step = range === 'day' ? 1 : 7;
+    setDate(addDays(date, direction === 'next' ? step : -step));
+  };
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900">
+      {/* Toolbar */}
+      <div className="print:hidden border-b border-gray-200 bg-gray-50 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
+            {(['day', 'week'] as DocketRange[]).map(option => (
+              <Button
+                key={option}
+                variant={range === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setRange(option)}
+                className={range === option
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                  : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'}
+              >
+                {option === 'day' ? 'Day' : 'Week'}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-1">
+            <Button variant="ghost" size="sm" onClick={() => navigate('prev')} aria-label="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('next')} aria-label="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <Checkbox
+              checked={includeCancelled}
+              onCheckedChange={(checked) => setIncludeCancelled(checked === true)}
+            />
+            <span>Include cancelled hearings</span>
+          </label>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Button
+            onClick={() => window.print()}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            <X className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        </div>
+      </div>
+
+      {/* Docket */}
+      <div className="docket px-6 py-6 print:p-0">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">{getDocketTitle(options)}</h1>
+        <p className="text-sm text-gray-500 mb-6">
+          Printed {format(new Date(), 'MMM d, yyyy h:mm a')}
+          {!includeCancelled && ' · cancelled hearings omitted'}
+        </p>
+
+        {days.map(day => (
+          <section key={day.date.toISOString()} className="docket-day mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 border-b-2 border-gray-900 pb-1 mb-2">
+              {format(day.date, 'EEEE, MMMM d, yyyy')}
+            </h2>
+            {day.entries.length === 0 ? (
+              <p className="text-sm text-gray-500 py-2">No hearings scheduled.</p>
+            ) : (
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-300">
+                    <th className="py-1 pr-3 font-medium w-40">Time</th>
+                    <th className="py-1 pr-3 font-medium w-28">Case No.</th>
+                    <th className="py-1 pr-3 font-medium">Case / Hearing</th>
+                    <th className="py-1 pr-3 font-medium w-28">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {day.entries.map(({ event, caseTitle, spanDay }) => (
+                    <tr key={event.id} className="align-top border-b border-gray-200 break-inside-avoid">
+                      <td className="py-2 pr-3 whitespace-nowrap">
+                        {event.allDay ? 'All day' : `${formatTime12Hour(event.startTime)} – ${formatTime12Hour(event.endTime)}`}
+                        {spanDay && <div className="text-xs text-gray-500">{spanDay}</div>}
+                      </td>
+                      <td className="py-2 pr-3 font-medium">{event.caseNumber}</td>
+                      <td className="py-2 pr-3">
+                        <div className="font-medium text-gray-900">{caseTitle}</div>
+                        <div className="text-gray-700">{stripCasePrefix(event.title, event.caseNumber)}</div>
+                        {event.notes && <div className="text-gray-500 italic mt-1">{event.notes}</div>}
+                      </td>
+                      <td className={`py-2 pr-3 font-medium ${getStatus(event.status).textClassName}`}>
+                        {getStatusLabel(event.status)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DocketReport;
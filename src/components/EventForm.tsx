@@ -4,30 +4,83 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CalendarOff, CalendarSearch } from "lucide-react";
+import { describeConflictReason, findConflicts, validateTimeRange } from "@/lib/conflicts";
+import { fromDateInputValue, toDateInputValue } from "@/lib/dates";
+import { ALL_DAY_END, ALL_DAY_START, formatEventTimes, getSpanDays } from "@/lib/event-span";
+import { describeRecurrence } from "@/lib/recurrence";
+import { HearingInput } from "@/lib/calendar-store";
+import { isSameHearingSlot, RESCHEDULE_REASONS } from "@/lib/history";
+import { FollowUpDraft } from "@/lib/outcomes";
+import { describeClosedDays } from "@/lib/closures";
+import { emptyResources, findCourthouse, findJudge, Resources } from "@/lib/resources";
+import { getStatusLabel, getStatusOptions, INITIAL_STATUS } from "@/lib/statuses";
+import { describePeople } from "@/lib/people";
+import { Slot } from "@/lib/reschedule";
+import { timeToMinutes } from "@/lib/timeline";
+import { ClosureRecord, PersonRecord, Recurrence, RescheduleReason } from "@/types/calendar";
+import PeoplePicker from './PeoplePicker';
+import SlotFinder from './SlotFinder';
 import { Event } from './Calendar';
 
+// Select items can't have an empty value, so "none" needs a stand-in
+const NO_RESOURCE = 'none';
+
 interface EventFormProps {
-  onSave: (event: Omit<Event, 'id'>) => void;
+  onSave: (event: HearingInput) => void;
   onCancel: () => void;
   initialEvent?: Event | null;
+  // Pre-fills a new hearing or deadline, e.g. a follow-up from a hearing's outcome
+  draft?: FollowUpDraft | null;
+  existingEvents?: Event[];
+  closures?: ClosureRecord[];
+  resources?: Resources;
+  people?: PersonRecord[];
+  // Recorded with reschedule history; changing it here updates the setting
+  userName?: string;
+  onUserNameChange?: (userName: string) => void;
 }
 
 const EventForm: React.FC<EventFormProps> = ({
   onSave,
   onCancel,
-  initialEvent
+  initialEvent,
+  draft,
+  existingEvents = [],
+  closures = [],
+  resources = emptyResources,
+  people = [],
+  userName = '',
+  onUserNameChange
 }) => {
   const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    notes: '',
-    caseNumber: '',
-    date: new Date().toISOString().split('T')[0],
+    title: draft?.title ?? '',
+    notes: draft?.notes ?? '',
+    caseNumber: draft?.caseNumber ?? '',
+    date: toDateInputValue(new Date()),
+    endDate: '',
+    allDay: !!draft?.allDay,
+    type: (draft?.type ?? 'hearing') as Event['type'],
     startTime: '09:00',
     endTime: '10:00',
-    status: 'new' as Event['status']
+    status: INITIAL_STATUS as Event['status'],
+    courtroomId: draft?.courtroomId ?? '',
+    judgeId: draft?.judgeId ?? '',
+    assigneeIds: draft?.assigneeIds ?? [],
+    repeat: 'none' as Recurrence['frequency'] | 'none',
+    interval: '1',
+    ends: 'never' as 'never' | 'until' | 'count',
+    until: '',
+    count: '10'
   });
+  // Why an existing hearing is being moved, kept in its reschedule history
+  const [reason, setReason] = useState<RescheduleReason>('other');
+  const [reasonNote, setReasonNote] = useState('');
+  const [changedBy, setChangedBy] = useState(userName);
+  const [isFindingSlot, setIsFindingSlot] = useState(false);
 
   useEffect(() => {
     if (initialEvent) {
@@ -38,39 +91,133 @@ const EventForm: React.FC<EventFormProps> = ({
 
       setFormData({
         title,
-        description: initialEvent.description,
         notes: initialEvent.notes,
         caseNumber: initialEvent.caseNumber || caseNumber,
-        date: initialEvent.date.toISOString().split('T')[0],
-        startTime: initialEvent.startTime,
-        endTime: initialEvent.endTime,
-        status: initialEvent.status
+        date: toDateInputValue(initialEvent.date),
+        endDate: getSpanDays(initialEvent) > 1 ? toDateInputValue(initialEvent.endDate) : '',
+        allDay: !!initialEvent.allDay,
+        type: initialEvent.type,
+        // All-day hearings fall back to regular hours if they are switched back to timed
+        startTime: initialEvent.allDay ? '09:00' : initialEvent.startTime,
+        endTime: initialEvent.allDay ? '10:00' : initialEvent.endTime,
+        status: initialEvent.status,
+        courtroomId: initialEvent.courtroomId ?? '',
+        judgeId: initialEvent.judgeId ?? '',
+        assigneeIds: initialEvent.assigneeIds ?? [],
+        repeat: initialEvent.recurrence?.frequency ?? 'none',
+        interval: String(initialEvent.recurrence?.interval ?? 1),
+        ends: initialEvent.recurrence?.until ? 'until' : initialEvent.recurrence?.count ? 'count' : 'never',
+        until: initialEvent.recurrence?.until ? toDateInputValue(initialEvent.recurrence.until) : '',
+        count: String(initialEvent.recurrence?.count ?? 10)
       });
     }
   }, [initialEvent]);
 
+  const startTime = formData.allDay ? ALL_DAY_START : formData.startTime;
+  const endTime = formData.allDay ? ALL_DAY_END : formData.endTime;
+  const endDate = formData.endDate ? fromDateInputValue(formData.endDate) : undefined;
+  // Without people of its own the hearing falls back to the case's team, which is only known for saved hearings
+  const coveredBy = formData.assigneeIds.length > 0
+    ? formData.assigneeIds
+    : initialEvent?.assigneeIds?.length ? undefined : initialEvent?.coveredBy;
+
+  // Checked on every change so problems show up before saving
+  const timeError = formData.allDay ? null : validateTimeRange(formData.startTime, formData.endTime);
+  const dateError = endDate && formData.date && endDate < fromDateInputValue(formData.date)
+    ? 'End date must be on or after the start date'
+    : null;
+  const conflicts = formData.date && !timeError && !dateError
+    ? findConflicts({
+        id: initialEvent?.id,
+        date: fromDateInputValue(formData.date),
+        endDate,
+        allDay: formData.allDay,
+        startTime,
+        endTime,
+        status: formData.status,
+        type: formData.type,
+        courtroomId: formData.type === 'hearing' && formData.courtroomId || undefined,
+        judgeId: formData.type === 'hearing' && formData.judgeId || undefined,
+        coveredBy
+      }, existingEvents)
+    : [];
+  const closedDays = formData.date && !dateError
+    ? describeClosedDays(closures, { date: fromDateInputValue(formData.date), endDate, allDay: formData.allDay })
+    : [];
+
+  const buildRecurrence = (): Recurrence | undefined => {
+    if (formData.repeat === 'none') return undefined;
+    return {
+      frequency: formData.repeat,
+      interval: Math.max(1, Number(formData.interval) || 1),
+      until: formData.ends === 'until' && formData.until ? fromDateInputValue(formData.until) : undefined,
+      count: formData.ends === 'count' ? Math.max(1, Number(formData.count) || 1) : undefined
+    };
+  };
+
+  const isMoved = !!initialEvent && !!formData.date && !isSameHearingSlot(initialEvent, {
+    date: fromDateInputValue(formData.date),
+    endDate,
+    allDay: formData.allDay,
+    startTime,
+    endTime
+  });
+
+  const recurrence = buildRecurrence();
+  const recurrenceError = recurrence?.until && formData.date && recurrence.until < fromDateInputValue(formData.date)
+    ? 'The series must end on or after the first hearing'
+    : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.title.trim() || !formData.caseNumber.trim()) return;
+    if (!formData.title.trim() || !formData.caseNumber.trim() || timeError || dateError || recurrenceError) return;
 
     onSave({
       title: `${formData.caseNumber}: ${formData.title.trim()}`,
-      description: formData.description.trim(),
+      // Case details are edited through CaseForm; hearings never overwrite them
+      description: initialEvent?.description ?? '',
       notes: formData.notes.trim(),
       caseNumber: formData.caseNumber.trim(),
-      date: new Date(formData.date),
-      startTime: formData.startTime,
-      endTime: formData.endTime,
-      type: 'hearing',
-      status: formData.status
+      date: fromDateInputValue(formData.date),
+      endDate,
+      allDay: formData.allDay || undefined,
+      startTime,
+      endTime,
+      type: formData.type,
+      status: formData.status,
+      // Deadlines are filed, not heard, so they never hold a courtroom or judge; empty clears them
+      courtroomId: formData.type === 'hearing' ? formData.courtroomId : '',
+      judgeId: formData.type === 'hearing' ? formData.judgeId : '',
+      assigneeIds: formData.assigneeIds,
+      followUpOf: initialEvent ? undefined : draft?.followUpOf,
+      recurrence,
+      change: isMoved ? { reason, note: reasonNote } : undefined
     });
+    if (isMoved && changedBy.trim() !== userName) onUserNameChange?.(changedBy.trim());
   };
 
-  const handleChange = (field: string, value: string) => {
+  const handleChange = (field: string, value: string | string[]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handlePickSlot = (slot: Slot) => {
+    setFormData(prev => ({
+      ...prev,
+      date: toDateInputValue(slot.date),
+      endDate: '',
+      startTime: slot.startTime,
+      endTime: slot.endTime
+    }));
+    setIsFindingSlot(false);
+  };
+
+  // Picking a judge fills in the courtroom they usually sit in, unless one is already chosen
+  const handleJudgeChange = (judgeId: string) => {
+    const courtroomId = findJudge(resources, judgeId)?.courtroomId;
+    setFormData(prev => ({ ...prev, judgeId, courtroomId: prev.courtroomId || courtroomId || '' }));
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="grid grid-cols-2 gap-4">
@@ -95,22 +242,35 @@ const EventForm: React.FC<EventFormProps> = ({
               <SelectValue />
             </SelectTrigger>
             <SelectContent className="bg-white border-gray-200">
-              <SelectItem value="new" className="text-foreground hover:bg-accent">
-                New
-              </SelectItem>
-              <SelectItem value="rescheduled" className="text-foreground hover:bg-accent">
-                Rescheduled
-              </SelectItem>
-              <SelectItem value="cancelled" className="text-foreground hover:bg-accent">
-                Cancelled
-              </SelectItem>
+              {/* Only the statuses the saved hearing may change to */}
+              {getStatusOptions(initialEvent?.status).map(status => (
+                <SelectItem key={status} value={status} className="text-foreground hover:bg-accent">
+                  {getStatusLabel(status)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      <RadioGroup
+        value={formData.type}
+        onValueChange={(value) => handleChange('type', value)}
+        className="flex items-center space-x-4"
+        aria-label="Type"
+      >
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <RadioGroupItem value="hearing" />
+          <span>Hearing</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <RadioGroupItem value="deadline" />
+          <span>Deadline</span>
+        </label>
+      </RadioGroup>
+
       <div className="space-y-2">
-        <Label htmlFor="title" className="text-gray-700">Hearing Title *</Label>
+        <Label htmlFor="title" className="text-gray-700">{formData.type === 'deadline' ? 'Deadline' : 'Hearing'} Title *</Label>
         <Input
           id="title"
           value={formData.title}
@@ -122,17 +282,72 @@ const EventForm: React.FC<EventFormProps> = ({
         />
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="description" className="text-gray-700">Case Description</Label>
-        <Textarea
-          id="description"
-          value={formData.description}
-          onChange={(e) => handleChange('description', e.target.value)}
-          placeholder="Enter case description"
-          className="bg-white border-gray-300 text-gray-900 placeholder-gray-500 
-            focus:border-blue-500 focus:ring-blue-500 min-h-[80px]"
-        />
-      </div>
+      {formData.type === 'hearing' && (resources.courtrooms.length > 0 || resources.judges.length > 0) && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="courtroom" className="text-gray-700">Courtroom</Label>
+            <Select
+              value={formData.courtroomId || NO_RESOURCE}
+              onValueChange={(value) => handleChange('courtroomId', value === NO_RESOURCE ? '' : value)}
+            >
+              <SelectTrigger id="courtroom" className="bg-white border-gray-300 text-gray-900
+                focus:border-blue-500 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                <SelectItem value={NO_RESOURCE} className="text-foreground hover:bg-accent">Not set</SelectItem>
+                {resources.courtrooms.map(courtroom => (
+                  <SelectItem key={courtroom.id} value={courtroom.id} className="text-foreground hover:bg-accent">
+                    {courtroom.name}
+                    {findCourthouse(resources, courtroom.courthouseId) && (
+                      <span className="text-gray-500"> &middot; {findCourthouse(resources, courtroom.courthouseId).name}</span>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="judge" className="text-gray-700">Judge</Label>
+            <Select
+              value={formData.judgeId || NO_RESOURCE}
+              onValueChange={(value) => handleJudgeChange(value === NO_RESOURCE ? '' : value)}
+            >
+              <SelectTrigger id="judge" className="bg-white border-gray-300 text-gray-900
+                focus:border-blue-500 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                <SelectItem value={NO_RESOURCE} className="text-foreground hover:bg-accent">Not set</SelectItem>
+                {resources.judges.map(judge => (
+                  <SelectItem key={judge.id} value={judge.id} className="text-foreground hover:bg-accent">
+                    {judge.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {people.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-gray-700">Covered by</Label>
+          <PeoplePicker
+            people={people}
+            selected={formData.assigneeIds}
+            onChange={(assigneeIds) => handleChange('assigneeIds', assigneeIds)}
+            label="Covered by"
+          />
+          {formData.assigneeIds.length === 0 && (
+            <p className="text-xs text-gray-500">
+              {!initialEvent?.assigneeIds?.length && initialEvent?.coveredBy?.length
+                ? `Covered by the case's team: ${describePeople(people, initialEvent.coveredBy)}.`
+                : "Leave empty to use the case's team."}
+            </p>
+          )}
+        </div>
+      )}
 
       <div className="space-y-2">
         <Label htmlFor="notes" className="text-gray-700">Hearing Notes</Label>
@@ -146,46 +361,263 @@ const EventForm: React.FC<EventFormProps> = ({
         />
       </div>
 
-      <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="date" className="text-gray-700">Date *</Label>
+            <Input
+              id="date"
+              type="date"
+              value={formData.date}
+              onChange={(e) => handleChange('date', e.target.value)}
+              className="bg-white border-gray-300 text-gray-900 
+                focus:border-blue-500 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="endDate" className="text-gray-700">End Date</Label>
+            <Input
+              id="endDate"
+              type="date"
+              value={formData.endDate}
+              min={formData.date}
+              onChange={(e) => handleChange('endDate', e.target.value)}
+              className="bg-white border-gray-300 text-gray-900 
+                focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">Set an end date for hearings that run over several days, such as a trial.</p>
+        {dateError && <p className="text-sm text-red-600">{dateError}</p>}
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <Checkbox
+          checked={formData.allDay}
+          onCheckedChange={(checked) => setFormData(prev => ({ ...prev, allDay: checked === true }))}
+        />
+        <span>All day</span>
+      </label>
+
+      {!formData.allDay && (
         <div className="space-y-2">
-          <Label htmlFor="date" className="text-gray-700">Date *</Label>
-          <Input
-            id="date"
-            type="date"
-            value={formData.date}
-            onChange={(e) => handleChange('date', e.target.value)}
-            className="bg-white border-gray-300 text-gray-900 
-              focus:border-blue-500 focus:ring-blue-500"
-            required
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startTime" className="text-gray-700">Start Time *</Label>
+              <Input
+                id="startTime"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => handleChange('startTime', e.target.value)}
+                className="bg-white border-gray-300 text-gray-900 
+                  focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endTime" className="text-gray-700">End Time *</Label>
+              <Input
+                id="endTime"
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => handleChange('endTime', e.target.value)}
+                className="bg-white border-gray-300 text-gray-900 
+                  focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+          {timeError && <p className="text-sm text-red-600">{timeError}</p>}
+        </div>
+      )}
+
+      {/* Only single-day timed hearings fit the court's sessions */}
+      {formData.type === 'hearing' && !formData.allDay && !formData.endDate && (
+        isFindingSlot ? (
+          <SlotFinder
+            earliestDate={formData.date}
+            durationMinutes={timeError ? 60 : timeToMinutes(formData.endTime) - timeToMinutes(formData.startTime)}
+            courtroomId={formData.courtroomId}
+            judgeId={formData.judgeId}
+            personIds={coveredBy}
+            hearingId={initialEvent?.id}
+            existingEvents={existingEvents}
+            closures={closures}
+            resources={resources}
+            people={people}
+            onPick={handlePickSlot}
+            onClose={() => setIsFindingSlot(false)}
           />
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setIsFindingSlot(true)}
+            className="border-gray-300 text-gray-700 hover:bg-accent"
+          >
+            <CalendarSearch className="h-4 w-4 mr-2" />
+            Find a slot
+          </Button>
+        )
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="repeat" className="text-gray-700">Repeat</Label>
+        <div className="grid grid-cols-2 gap-4">
+          <Select value={formData.repeat} onValueChange={(value) => handleChange('repeat', value)}>
+            <SelectTrigger id="repeat" className="bg-white border-gray-300 text-gray-900 
+              focus:border-blue-500 focus:ring-blue-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border-gray-200">
+              <SelectItem value="none" className="text-foreground hover:bg-accent">Does not repeat</SelectItem>
+              <SelectItem value="daily" className="text-foreground hover:bg-accent">Daily</SelectItem>
+              <SelectItem value="weekly" className="text-foreground hover:bg-accent">Weekly</SelectItem>
+              <SelectItem value="monthly" className="text-foreground hover:bg-accent">Monthly (same date)</SelectItem>
+              <SelectItem value="monthlyWeekday" className="text-foreground hover:bg-accent">Monthly (same weekday)</SelectItem>
+            </SelectContent>
+          </Select>
+          {formData.repeat !== 'none' && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Every</span>
+              <Input
+                type="number"
+                min={1}
+                value={formData.interval}
+                onChange={(e) => handleChange('interval', e.target.value)}
+                aria-label="Repeat interval"
+                className="w-16 bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-600">
+                {formData.repeat === 'daily' ? 'days' : formData.repeat === 'weekly' ? 'weeks' : 'months'}
+              </span>
+            </div>
+          )}
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="startTime" className="text-gray-700">Start Time *</Label>
+        {formData.repeat !== 'none' && (
+          <div className="grid grid-cols-2 gap-4">
+            <Select value={formData.ends} onValueChange={(value) => handleChange('ends', value)}>
+              <SelectTrigger aria-label="Series end" className="bg-white border-gray-300 text-gray-900 
+                focus:border-blue-500 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                <SelectItem value="never" className="text-foreground hover:bg-accent">Never ends</SelectItem>
+                <SelectItem value="until" className="text-foreground hover:bg-accent">Ends on date</SelectItem>
+                <SelectItem value="count" className="text-foreground hover:bg-accent">Ends after</SelectItem>
+              </SelectContent>
+            </Select>
+            {formData.ends === 'until' && (
+              <Input
+                type="date"
+                value={formData.until}
+                onChange={(e) => handleChange('until', e.target.value)}
+                aria-label="Series end date"
+                className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            )}
+            {formData.ends === 'count' && (
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={formData.count}
+                  onChange={(e) => handleChange('count', e.target.value)}
+                  aria-label="Number of occurrences"
+                  className="w-20 bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-600">occurrences</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {recurrence && formData.date && !recurrenceError && (
+          <p className="text-xs text-gray-500">{describeRecurrence(recurrence, fromDateInputValue(formData.date))}</p>
+        )}
+        {recurrenceError && <p className="text-sm text-red-600">{recurrenceError}</p>}
+      </div>
+
+      {isMoved && (
+        <div className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-3">
+          <p className="text-sm font-medium text-gray-700">This moves the hearing; it will be kept in its history.</p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reason" className="text-gray-700">Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as RescheduleReason)}>
+                <SelectTrigger id="reason" className="bg-white border-gray-300 text-gray-900 
+                  focus:border-blue-500 focus:ring-blue-500">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-gray-200">
+                  {RESCHEDULE_REASONS.map(option => (
+                    <SelectItem key={option.value} value={option.value} className="text-foreground hover:bg-accent">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="changedBy" className="text-gray-700">Changed by</Label>
+              <Input
+                id="changedBy"
+                value={changedBy}
+                onChange={(e) => setChangedBy(e.target.value)}
+                placeholder="Your name"
+                className="bg-white border-gray-300 text-gray-900 placeholder-gray-500 
+                  focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
           <Input
-            id="startTime"
-            type="time"
-            value={formData.startTime}
-            onChange={(e) => handleChange('startTime', e.target.value)}
-            className="bg-white border-gray-300 text-gray-900 
+            value={reasonNote}
+            onChange={(e) => setReasonNote(e.target.value)}
+            placeholder="Note, e.g. continued at defense request"
+            aria-label="Reason note"
+            className="bg-white border-gray-300 text-gray-900 placeholder-gray-500 
               focus:border-blue-500 focus:ring-blue-500"
-            required
           />
         </div>
-      </div>
+      )}
 
-      <div className="space-y-2">
-        <Label htmlFor="endTime" className="text-gray-700">End Time *</Label>
-        <Input
-          id="endTime"
-          type="time"
-          value={formData.endTime}
-          onChange={(e) => handleChange('endTime', e.target.value)}
-          className="bg-white border-gray-300 text-gray-900 
-            focus:border-blue-500 focus:ring-blue-500"
-          required
-        />
-      </div>
+      {conflicts.length > 0 && (
+        <div className="bg-amber-50 border border-amber-300 rounded-md p-3 space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            <span>Conflicts with {conflicts.length} hearing{conflicts.length !== 1 ? 's' : ''}</span>
+          </div>
+          <ul className="space-y-1">
+            {conflicts.map(({ event, reasons }) => (
+              <li key={event.id} className="text-xs text-amber-800">
+                <span className="font-medium">{event.title}</span>
+                {' '}({event.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, {formatEventTimes(event)})
+                {' '}&middot; {reasons.map(describeConflictReason).join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {closedDays.length > 0 && (
+        <div className="bg-amber-50 border border-amber-300 rounded-md p-3 space-y-2">
+          <div className="flex items-center space-x-2 text-sm font-medium text-amber-800">
+            <CalendarOff className="h-4 w-4" />
+            <span>The court is closed</span>
+          </div>
+          <ul className="space-y-1">
+            {closedDays.map(day => (
+              <li key={day} className="text-xs text-amber-800">{day}</li>
+            ))}
+          </ul>
+        </div>
+      )}
 
       <div className="flex justify-end space-x-3 pt-4">
         <Button
@@ -198,9 +630,10 @@ const EventForm: React.FC<EventFormProps> = ({
         </Button>
         <Button
           type="submit"
+          disabled={!!timeError || !!dateError || !!recurrenceError}
           className="bg-blue-600 hover:bg-blue-700 text-white"
         >
-          {initialEvent ? 'Update Hearing' : 'Create Hearing'}
+          {initialEvent ? 'Update' : 'Create'} {formData.type === 'deadline' ? 'Deadline' : 'Hearing'}
         </Button>
       </div>
     </form>
@@ -6,34 +6,61 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { HearingInput } from "@/lib/calendar-store";
+import { FollowUpDraft } from "@/lib/outcomes";
+import { Resources } from "@/lib/resources";
+import { ClosureRecord, PersonRecord } from "@/types/calendar";
 import EventForm from './EventForm';
 import { Event } from './Calendar';
 
 interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (event: Omit<Event, 'id'>) => void;
+  onSave: (event: HearingInput) => void;
   event?: Event | null;
+  draft?: FollowUpDraft | null;
+  existingEvents?: Event[];
+  closures?: ClosureRecord[];
+  resources?: Resources;
+  people?: PersonRecord[];
+  userName?: string;
+  onUserNameChange?: (userName: string) => void;
 }
 
 const EventModal: React.FC<EventModalProps> = ({
   isOpen,
   onClose,
   onSave,
-  event
+  event,
+  draft,
+  existingEvents,
+  closures,
+  resources,
+  people,
+  userName,
+  onUserNameChange
 }) => {
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold text-gray-900">
-            {event ? 'Edit Hearing' : 'Add New Hearing'}
+            {event
+              ? `Edit ${event.type === 'deadline' ? 'Deadline' : 'Hearing'}`
+              : draft ? `Add Follow-up ${draft.type === 'deadline' ? 'Deadline' : 'Hearing'}` : 'Add New Hearing'}
           </DialogTitle>
         </DialogHeader>
         <EventForm
           onSave={onSave}
           onCancel={onClose}
           initialEvent={event}
+          draft={draft}
+          existingEvents={existingEvents}
+          closures={closures}
+          resources={resources}
+          people={people}
+          userName={userName}
+          onUserNameChange={onUserNameChange}
         />
       </DialogContent>
     </Dialog>
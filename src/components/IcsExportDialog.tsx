@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { exportToIcs } from "@/lib/ical/export";
+import { downloadFile, toFileName } from "@/lib/download";
+import { Case, Event } from './Calendar';
+
+export interface ExportRequest {
+  label: string;
+  events: Event[];
+}
+
+interface IcsExportDialogProps {
+  request: ExportRequest | null;
+  cases: Case[];
+  onClose: () => void;
+}
+
+const reminderOptions = [
+  { value: 'none', label: 'No reminder' },
+  { value: '15', label: '15 minutes before' },
+  { value: '60', label: '1 hour before' },
+  { value: '1440', label: '1 day before' }
+];
+
+const IcsExportDialog: React.FC<IcsExportDialogProps> = ({
+  request,
+  cases,
+  onClose
+}) => {
+  const [reminder, setReminder] = useState('60');
+
+  const handleDownload = () => {
+    if (!request) return;
+
+    const content = exportToIcs(request.events, {
+      reminderMinutes: reminder === 'none' ? undefined : Number(reminder),
+      calendarName: request.label,
+      cases
+    });
+    downloadFile(`${toFileName(request.label)}.ics`, content, 'text/calendar;charset=utf-8');
+    onClose();
+  };
+
+  const count = request?.events.length ?? 0;
+
+  return (
+    <Dialog open={!!request} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Export to Calendar (.ics)
+          </DialogTitle>
+          <DialogDescription>
+            {request?.label}: {count} hearing{count !== 1 ? 's' : ''}. Opens in Outlook, Google Calendar and Apple Calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="reminder" className="text-gray-700">Reminder</Label>
+          <Select value={reminder} onValueChange={setReminder}>
+            <SelectTrigger id="reminder" className="bg-white border-gray-300 text-gray-900
+              focus:border-blue-500 focus:ring-blue-500">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border-gray-200">
+              {reminderOptions.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-foreground hover:bg-accent">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={count === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IcsExportDialog;
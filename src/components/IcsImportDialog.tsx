@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { HearingInput } from "@/lib/calendar-store";
+import { buildImportPreview, DEFAULT_CASE_PATTERN, ImportItem, ImportKind } from "@/lib/ical/import";
+import { getEndDate, getSpanDays } from "@/lib/event-span";
+import { getStatusLabel, isCancelledStatus } from "@/lib/statuses";
+import { formatTime12Hour } from "@/lib/timeline";
+import { Event } from './Calendar';
+
+interface IcsImportDialogProps {
+  isOpen: boolean;
+  existingEvents: Event[];
+  onImport: (hearings: { hearingId: string; input: HearingInput }[]) => void;
+  onClose: () => void;
+}
+
+const sections: { kind: ImportKind; label: string; className: string }[] = [
+  { kind: 'new', label: 'New', className: 'bg-green-50 border-green-200' },
+  { kind: 'updated', label: 'Updated', className: 'bg-blue-50 border-blue-200' },
+  { kind: 'duplicate', label: 'Duplicates (skipped)', className: 'bg-gray-50 border-gray-200' }
+];
+
+const IcsImportDialog: React.FC<IcsImportDialogProps> = ({
+  isOpen,
+  existingEvents,
+  onImport,
+  onClose
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [casePattern, setCasePattern] = useState(DEFAULT_CASE_PATTERN);
+  const [defaultCaseNumber, setDefaultCaseNumber] = useState('');
+
+  // Re-classified whenever the file or the matching options change
+  const { preview, error } = useMemo(() => {
+    if (!fileText) return { preview: null, error: null };
+    try {
+      return {
+        preview: buildImportPreview(fileText, existingEvents, { casePattern, defaultCaseNumber }),
+        error: null
+      };
+    } catch (parseError) {
+      return { preview: null, error: parseError instanceof Error ? parseError.message : String(parseError) };
+    }
+  }, [fileText, existingEvents, casePattern, defaultCaseNumber]);
+
+  const toImport = preview?.items.filter(item => item.kind !== 'duplicate') ?? [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+  };
+
+  const handleClose = () => {
+    setFileName('');
+    setFileText('');
+    onClose();
+  };
+
+  const handleImport = () => {
+    onImport(toImport.map(({ hearingId, input }) => ({ hearingId, input })));
+    handleClose();
+  };
+
+  const renderItem = (item: ImportItem) => (
+    <li key={item.hearingId} className="text-sm text-gray-700">
+      <span className="font-medium text-gray-900">{item.input.title}</span>
+      {' · '}
+      {format(item.input.date, 'MMM d, yyyy')}
+      {getSpanDays(item.input) > 1 && ` – ${format(getEndDate(item.input), 'MMM d, yyyy')}`}
+      {' '}{item.input.allDay ? 'all day' : formatTime12Hour(item.input.startTime)}
+      {isCancelledStatus(item.input.status) && (
+        <span className="ml-1 text-red-600">({getStatusLabel(item.input.status).toLowerCase()})</span>
+      )}
+      {item.kind === 'updated' && (
+        <span className="block text-xs text-gray-500">Changes: {item.changes.join(', ')}</span>
+      )}
+    </li>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-2xl shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Import Calendar (.ics)
+          </DialogTitle>
+          <DialogDescription>
+            Review new, updated and duplicate hearings before adding them to the calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="icsFile" className="text-gray-700">Calendar file</Label>
+            <Input
+              id="icsFile"
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleFileChange}
+              className="bg-white border-gray-300 text-gray-900"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="casePattern" className="text-gray-700">Case number pattern</Label>
+              <Input
+                id="casePattern"
+                value={casePattern}
+                onChange={(e) => setCasePattern(e.target.value)}
+                className="bg-white border-gray-300 text-gray-900 font-mono text-xs
+                  focus:border-blue-500 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500">Matched against SUMMARY: group 1 is the case number, group 2 the title.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="defaultCaseNumber" className="text-gray-700">Default case number</Label>
+              <Input
+                id="defaultCaseNumber"
+                value={defaultCaseNumber}
+                onChange={(e) => setDefaultCaseNumber(e.target.value)}
+                placeholder="e.g., 2024-001"
+                className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                  focus:border-blue-500 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500">Used for events without a recognizable case number.</p>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {preview && (
+            <div className="max-h-72 overflow-y-auto space-y-3">
+              {sections.map(section => {
+                const items = preview.items.filter(item => item.kind === section.kind);
+                if (items.length === 0) return null;
+                return (
+                  <div key={section.kind} className={`rounded-md border p-3 ${section.className}`}>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                      {section.label} ({items.length})
+                    </h4>
+                    <ul className="space-y-1">{items.map(renderItem)}</ul>
+                  </div>
+                );
+              })}
+              {preview.skipped.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+                  <h4 className="text-sm font-semibold text-amber-800 mb-2">
+                    Not imported ({preview.skipped.length})
+                  </h4>
+                  <ul className="space-y-1">
+                    {preview.skipped.map((item, index) => (
+                      <li key={index} className="text-sm text-amber-800">
+                        {item.summary || 'Untitled event'}: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {preview.items.length === 0 && preview.skipped.length === 0 && (
+                <p className="text-sm text-gray-500">No events found in {fileName}.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={handleClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={toImport.length === 0}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import {toImport.length} hearing{toImport.length !== 1 ? 's' : ''}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IcsImportDialog;
@@ -1,60 +1,100 @@
 import React, { useState } from 'react';
-import { Calendar, Clock, Check, Edit, Trash2, Filter, ChevronDown, ChevronRight, Search, Tag, Plus, X, Palette } from 'lucide-react';
+import { Calendar, Clock, Check, Edit, Trash2, Filter, ChevronDown, ChevronRight, Search, Tag, Plus, X, Palette, MoreHorizontal, Archive, Lock, RotateCcw, AlertTriangle, Download, FileText, Repeat, History, ClipboardX, CornerDownRight, ListChecks, CalendarOff, Landmark, Gavel, MapPin, Users, UserCheck } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { getDefaultTagColor, getTagColorClasses, tagColorNames, tagColors, TagColor } from "@/lib/tag-colors";
+import { CsvExportGroup } from "@/lib/csv/export";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getEndDate } from "@/lib/event-span";
+import { countContinuances, describeReason, formatSlot } from "@/lib/history";
+import { getStatus, getStatusLabel, HEARING_STATUSES } from "@/lib/statuses";
+import { isMissingOutcome, isPastHearing, OutcomeInput } from "@/lib/outcomes";
+import { describeDeadlineRule, findDeadlineRule } from "@/lib/deadline-rules";
+import { findClosure } from "@/lib/closures";
+import { describeCourtroom, describeHearingResources, emptyResources, Resources } from "@/lib/resources";
+import { describePeople, isCoveredBy } from "@/lib/people";
+import { CaseStatus, ClosureRecord, EventType, HearingStatus, PersonRecord, TagRecord } from "@/types/calendar";
+import OutcomePanel from './OutcomePanel';
 import { Event, Case } from './Calendar';
 import { set } from 'date-fns';
 
 interface ListViewProps {
   events: Event[];
   cases: Case[];
+  tags: TagRecord[];
   onEditEvent: (event: Event) => void;
   onDeleteEvent: (eventId: string) => void;
+  onAddTag: (caseId: string, name: string, color?: string) => void;
+  onRemoveTag: (caseId: string, name: string) => void;
+  onEditCase: (caseItem: Case) => void;
+  onSetCaseStatus: (caseId: string, status: CaseStatus) => void;
+  onExportEvents: (events: Event[], label: string) => void;
+  onExportCsv: (groups: CsvExportGroup[], label: string) => void;
+  onExportCasePdf: (caseItem: Case) => void;
+  onSaveOutcome: (eventId: string, outcome: OutcomeInput) => void;
+  onCreateFollowUp: (event: Event, type: EventType) => void;
+  onAddDeadlines: (event: Event) => void;
+  conflictIds?: Set<string>;
+  closures?: ClosureRecord[];
+  resources?: Resources;
+  people?: PersonRecord[];
+  // Whose hearings "My hearings" shows; the filter is hidden until the user picks themselves
+  myPersonId?: string;
 }
 
 const ListView: React.FC<ListViewProps> = ({
   events,
   cases,
+  tags,
   onEditEvent,
-  onDeleteEvent
+  onDeleteEvent,
+  onAddTag,
+  onRemoveTag,
+  onEditCase,
+  onSetCaseStatus,
+  onExportEvents,
+  onExportCsv,
+  onExportCasePdf,
+  onSaveOutcome,
+  onCreateFollowUp,
+  onAddDeadlines,
+  conflictIds = new Set(),
+  closures = [],
+  resources = emptyResources,
+  people = [],
+  myPersonId = ''
 }) => {
-  const [filter, setFilter] = useState<'all' | 'new' | 'rescheduled' | 'cancelled'>('all');
+  const [filter, setFilter] = useState<'all' | HearingStatus>('all');
   const [sortBy, setSortBy] = useState<'date' | 'case' | 'title'>('date');
   const [searchQuery, setSearchQuery] = useState('');
+  const [showClosedCases, setShowClosedCases] = useState(false);
+  const [missingOutcomeOnly, setMissingOutcomeOnly] = useState(false);
+  const [courtroomFilter, setCourtroomFilter] = useState('all');
+  const [judgeFilter, setJudgeFilter] = useState('all');
+  const [myHearingsOnly, setMyHearingsOnly] = useState(false);
+  const showMyHearings = myHearingsOnly && !!myPersonId;
   const [expandedCases, setExpandedCases] = useState<Set<string>>(new Set());
   const [expandedHearings, setExpandedHearings] = useState<Set<string>>(new Set());
   const [editingTags, setEditingTags] = useState<string | null>(null);
   const [newTag, setNewTag] = useState('');
-  const [selectedTagColor, setSelectedTagColor] = useState({ base: 'bg-blue-100 text-blue-800', hover: 'hover:bg-blue-200 hover:text-blue-900' });
-  const [casesState, setCasesState] = useState<Case[]>(cases);
+  const [selectedTagColor, setSelectedTagColor] = useState<TagColor>('blue');
   const [tagDropdownOpen, setTagDropdownOpen] = useState(false);
 
-  // Color palette for tags with hover states
-  const tagColors = [
-    { base: 'bg-blue-100 text-blue-800', hover: 'hover:bg-blue-200 hover:text-blue-900' },
-    { base: 'bg-green-100 text-green-800', hover: 'hover:bg-green-200 hover:text-green-900' },
-    { base: 'bg-yellow-100 text-yellow-800', hover: 'hover:bg-yellow-200 hover:text-yellow-900' },
-    { base: 'bg-red-100 text-red-800', hover: 'hover:bg-red-200 hover:text-red-900' },
-    { base: 'bg-purple-100 text-purple-800', hover: 'hover:bg-purple-200 hover:text-purple-900' },
-    { base: 'bg-pink-100 text-pink-800', hover: 'hover:bg-pink-200 hover:text-pink-900' },
-    { base: 'bg-indigo-100 text-indigo-800', hover: 'hover:bg-indigo-200 hover:text-indigo-900' },
-    { base: 'bg-orange-100 text-orange-800', hover: 'hover:bg-orange-200 hover:text-orange-900' },
-    { base: 'bg-teal-100 text-teal-800', hover: 'hover:bg-teal-200 hover:text-teal-900' },
-    { base: 'bg-cyan-100 text-cyan-800', hover: 'hover:bg-cyan-200 hover:text-cyan-900' }
-  ];
-
   const getTagColor = (tag: string) => {
-    const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    const colorSet = tagColors[hash % tagColors.length];
-    return `${colorSet.base} ${colorSet.hover}`;
+    const tagRecord = tags.find(t => t.name === tag);
+    return getTagColorClasses(tagRecord ? tagRecord.color : getDefaultTagColor(tag));
   };
 
   // Filter cases based on search query (search through case title, description, and tags)
-  const filteredCases = casesState.filter(caseItem => {
+  const filteredCases = cases.filter(caseItem => {
+    // Closed and archived cases are hidden unless asked for
+    if (!showClosedCases && caseItem.status !== 'open') return false;
     if (!searchQuery.trim()) return true;
     
     const query = searchQuery.toLowerCase();
@@ -75,6 +115,10 @@ const ListView: React.FC<ListViewProps> = ({
     .filter(event => {
       // Filter by status
       if (filter !== 'all' && event.status !== filter) return false;
+      if (missingOutcomeOnly && !isMissingOutcome(event)) return false;
+      if (courtroomFilter !== 'all' && event.courtroomId !== courtroomFilter) return false;
+      if (judgeFilter !== 'all' && event.judgeId !== judgeFilter) return false;
+      if (showMyHearings && !isCoveredBy(event, myPersonId)) return false;
       
       // Filter by search query - only include events from filtered cases
       return filteredCases.some(caseItem => caseItem.id === event.parentId);
@@ -109,6 +153,15 @@ const ListView: React.FC<ListViewProps> = ({
     return acc;
   }, {} as Record<string, { caseNumber: string; caseData: Case; hearings: Event[] }>);
 
+  // Cases without any hearings yet still belong in the list unless a filter is active
+  if (filter === 'all' && !missingOutcomeOnly && courtroomFilter === 'all' && judgeFilter === 'all' && !showMyHearings) {
+    filteredCases
+      .filter(caseItem => caseItem.hearings.length === 0)
+      .forEach(caseItem => {
+        groupedByCases[caseItem.id] = { caseNumber: caseItem.caseNumber, caseData: caseItem, hearings: [] };
+      });
+  }
+
   const toggleCaseExpansion = (caseId: string) => {
     const newExpanded = new Set(expandedCases);
     if (newExpanded.has(caseId)) {
@@ -131,58 +184,46 @@ const ListView: React.FC<ListViewProps> = ({
 
  // Get all existing tags across all cases
   const getAllExistingTags = () => {
-    const allTags = casesState.flatMap(c => c.tags);
-    return [...new Set(allTags)].sort();
+    return tags.map(tag => tag.name);
   };
 
   const handleAddTag = (caseId: string, tagToAdd?: string) => {
     // if no tag is provided, use the newTag state
     const tagValue = tagToAdd || newTag.trim();
     if (tagValue) {
-      setCasesState(prevCases => prevCases.map(c => {
-        if (c.id === caseId) {
-          // Avoid duplicate tags
-          if (!c.tags.includes(tagValue)) {
-            return {
-              ...c,
-              tags: [...c.tags, tagValue]
-            };
-          }
-        }
-        return c;
-      }));
+      onAddTag(caseId, tagValue, selectedTagColor);
       setNewTag('');
       setEditingTags(null);
       setTagDropdownOpen(false);  // Close the dropdown after adding a tag
-      setSelectedTagColor({ base: 'bg-blue-100 text-blue-800', hover: 'hover:bg-blue-200 hover:text-blue-900' }); // Reset to default
+      setSelectedTagColor('blue'); // Reset to default
     }
   };
 
   const handleRemoveTag = (caseId: string, tagToRemove: string) => {
-    setCasesState(prevCases => prevCases.map(c => {
-      if (c.id === caseId) {
-        // Remove the tag by filtering it out
-        return {
-          ...c,
-          tags: c.tags.filter(tag => tag !== tagToRemove)
-        };
-      }
-      return c;
-    }));
+    onRemoveTag(caseId, tagToRemove);
     setNewTag('');
     setEditingTags(null);
   };
 
-  const getStatusColor = (status: Event['status']) => {
+  const renderStatusChip = (status: Event['status'], key?: string) => {
+    const { label, icon: StatusIcon, chipClassName } = getStatus(status);
+    return (
+      <div key={key} className={`flex items-center px-2 py-1 rounded-md text-xs font-medium border ${chipClassName}`}>
+        <StatusIcon className="h-3 w-3 mr-1" />
+        {label.toUpperCase()}
+      </div>
+    );
+  };
+
+  const getCaseStatusColor = (status: CaseStatus) => {
     switch (status) {
-      case 'new': return 'text-green-700 bg-green-100 border-green-300';
-      case 'rescheduled': return 'text-yellow-700 bg-yellow-100 border-yellow-300';
-      case 'cancelled': return 'text-red-700 bg-red-100 border-red-300';
-      default: return 'text-gray-600 bg-gray-50 border-gray-200';
+      case 'closed': return 'text-gray-700 bg-gray-100 border-gray-300';
+      case 'archived': return 'text-slate-600 bg-slate-100 border-slate-300';
+      default: return 'text-green-700 bg-green-100 border-green-300';
     }
   };
 
-  const formatDate = (date: Date) => {
+  const formatDay = (date: Date) => {
     const today = new Date();
     const tomorrow = new Date(today);
     tomorrow.setDate(today.getDate() + 1);
@@ -199,12 +240,19 @@ const ListView: React.FC<ListViewProps> = ({
     });
   };
 
+  // Multi-day hearings read as a range, e.g. "Mon, Jun 2 – Thu, Jun 5"
+  const formatDate = (date: Date, endDate?: Date) => {
+    const lastDay = getEndDate({ date, endDate });
+    return lastDay.getTime() === date.getTime() ? formatDay(date) : `${formatDay(date)} – ${formatDay(lastDay)}`;
+  };
+
   const CaseItem: React.FC<{ caseId: string; caseInfo: { caseNumber: string; caseData: Case; hearings: Event[] } }> = ({ 
     caseId, 
     caseInfo 
   }) => {
     const isExpanded = expandedCases.has(caseId);
     const isEditingTags = editingTags === caseId;
+    const continuances = countContinuances(caseInfo.caseData.hearings);
     
     return (
       <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
@@ -222,9 +270,19 @@ const ListView: React.FC<ListViewProps> = ({
                     <div className="px-2 py-1 rounded-md text-xs font-medium bg-blue-100 border-blue-300 text-blue-700">
                       {caseInfo.caseNumber}
                     </div>
+                    {caseInfo.caseData.status !== 'open' && (
+                      <div className={`px-2 py-1 rounded-md text-xs font-medium border ${getCaseStatusColor(caseInfo.caseData.status)}`}>
+                        {caseInfo.caseData.status.toUpperCase()}
+                      </div>
+                    )}
                     <span className="text-sm text-gray-600">
                       {caseInfo.hearings.length} hearing{caseInfo.hearings.length !== 1 ? 's' : ''}
                     </span>
+                    {continuances > 0 && (
+                      <span className="px-2 py-1 rounded-md text-xs font-medium border text-orange-700 bg-orange-50 border-orange-200">
+                        {continuances} continuance{continuances !== 1 ? 's' : ''}
+                      </span>
+                    )}
                   </div>
                   <div>
                     <h3 className="font-medium text-gray-900">{caseInfo.caseData.title}</h3>
@@ -315,12 +373,12 @@ const ListView: React.FC<ListViewProps> = ({
                           <div className="flex items-center space-x-1">
                             <Palette className="h-3 w-3 text-gray-400" />
                             <div className="flex space-x-1">
-                              {tagColors.slice(0, 5).map((color, index) => (
+                              {tagColorNames.slice(0, 5).map((color) => (
                                 <button
-                                  key={index}
+                                  key={color}
                                    className={`w-4 h-4 rounded-full border-2 ${
-                                     selectedTagColor.base === color.base ? 'border-gray-600' : 'border-gray-300'
-                                   } ${color.base.split(' ')[0]} hover:scale-110 transition-transform`}
+                                     selectedTagColor === color ? 'border-gray-600' : 'border-gray-300'
+                                   } ${tagColors[color].base.split(' ')[0]} hover:scale-110 transition-transform`}
                                   onClick={() => setSelectedTagColor(color)}
                                 />
                               ))}
@@ -429,12 +487,12 @@ const ListView: React.FC<ListViewProps> = ({
                           <div className="flex items-center space-x-1">
                             <Palette className="h-3 w-3 text-gray-400" />
                             <div className="flex space-x-1">
-                              {tagColors.slice(0, 5).map((color, index) => (
+                              {tagColorNames.slice(0, 5).map((color) => (
                                 <button
-                                  key={index}
+                                  key={color}
                                    className={`w-4 h-4 rounded-full border-2 ${
-                                     selectedTagColor.base === color.base ? 'border-gray-600' : 'border-gray-300'
-                                   } ${color.base.split(' ')[0]} hover:scale-110 transition-transform`}
+                                     selectedTagColor === color ? 'border-gray-600' : 'border-gray-300'
+                                   } ${tagColors[color].base.split(' ')[0]} hover:scale-110 transition-transform`}
                                   onClick={() => setSelectedTagColor(color)}
                                 />
                               ))}
@@ -454,11 +512,55 @@ const ListView: React.FC<ListViewProps> = ({
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                {caseInfo.hearings.map(hearing => (
-                  <div key={hearing.id} className={`px-2 py-1 rounded-md text-xs font-medium border ${getStatusColor(hearing.status)}`}>
-                    {hearing.status.toUpperCase()}
-                  </div>
-                ))}
+                {caseInfo.hearings.map(hearing => renderStatusChip(hearing.status, hearing.id))}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuItem onSelect={() => onEditCase(caseInfo.caseData)}>
+                      <Edit className="mr-2 h-4 w-4" />
+                      Edit case
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onSelect={() => onExportEvents(
+                        events.filter(event => event.parentId === caseId),
+                        `Case ${caseInfo.caseNumber}`
+                      )}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Export to calendar (.ics)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onExportCasePdf(caseInfo.caseData)}>
+                      <FileText className="mr-2 h-4 w-4" />
+                      Case summary (.pdf)
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    {caseInfo.caseData.status === 'open' ? (
+                      <DropdownMenuItem onSelect={() => onSetCaseStatus(caseId, 'closed')}>
+                        <Lock className="mr-2 h-4 w-4" />
+                        Close case
+                      </DropdownMenuItem>
+                    ) : (
+                      <DropdownMenuItem onSelect={() => onSetCaseStatus(caseId, 'open')}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Reopen case
+                      </DropdownMenuItem>
+                    )}
+                    {caseInfo.caseData.status !== 'archived' && (
+                      <DropdownMenuItem onSelect={() => onSetCaseStatus(caseId, 'archived')}>
+                        <Archive className="mr-2 h-4 w-4" />
+                        Archive case
+                      </DropdownMenuItem>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           </CollapsibleTrigger>
@@ -469,6 +571,7 @@ const ListView: React.FC<ListViewProps> = ({
                 <HearingItem 
                   key={hearing.id} 
                   hearing={hearing}
+                  hearingResources={describeHearingResources(resources, hearing)}
                   isExpanded={expandedHearings.has(hearing.id)}
                   onToggle={() => toggleHearingExpansion(hearing.id)}
                   onEdit={() => onEditEvent(hearing)}
@@ -482,13 +585,19 @@ const ListView: React.FC<ListViewProps> = ({
     );
   };
 
+  const describeRule = (ruleSetId: string, ruleId: string) => {
+    const rule = findDeadlineRule(ruleSetId, ruleId);
+    return rule ? describeDeadlineRule(rule) : 'Computed from court rules';
+  };
+
   const HearingItem: React.FC<{
     hearing: Event;
     isExpanded: boolean;
     onToggle: () => void;
     onEdit: () => void;
     onDelete: () => void;
-  }> = ({ hearing, isExpanded, onToggle, onEdit, onDelete }) => (
+    hearingResources: ReturnType<typeof describeHearingResources>;
+  }> = ({ hearing, hearingResources, isExpanded, onToggle, onEdit, onDelete }) => (
     <div className="border-b border-gray-100 last:border-b-0">
       <Collapsible open={isExpanded} onOpenChange={onToggle}>
         <CollapsibleTrigger asChild>
@@ -500,13 +609,48 @@ const ListView: React.FC<ListViewProps> = ({
                 ) : (
                   <ChevronRight className="h-3 w-3 text-gray-400" />
                 )}
-                <div className="px-2 py-1 rounded-md text-xs font-medium border bg-blue-50 text-blue-600 border-blue-200">
-                  <span className="mr-1">👥</span>
-                  HEARING
-                </div>
-                <div className={`px-2 py-1 rounded-md text-xs font-medium border ${getStatusColor(hearing.status)}`}>
-                  {hearing.status.toUpperCase()}
-                </div>
+                {hearing.type === 'deadline' ? (
+                  <div className="px-2 py-1 rounded-md text-xs font-medium border bg-amber-50 text-amber-700 border-amber-200">
+                    <span className="mr-1">⏰</span>
+                    DEADLINE
+                  </div>
+                ) : (
+                  <div className="px-2 py-1 rounded-md text-xs font-medium border bg-blue-50 text-blue-600 border-blue-200">
+                    <span className="mr-1">👥</span>
+                    HEARING
+                  </div>
+                )}
+                {renderStatusChip(hearing.status)}
+                {isMissingOutcome(hearing) && (
+                  <div className="flex items-center px-2 py-1 rounded-md text-xs font-medium border text-gray-700 bg-gray-100 border-gray-300">
+                    <ClipboardX className="h-3 w-3 mr-1" />
+                    NO OUTCOME
+                  </div>
+                )}
+                {conflictIds.has(hearing.id) && (
+                  <div className="flex items-center px-2 py-1 rounded-md text-xs font-medium border text-red-700 bg-red-50 border-red-300">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    CONFLICT
+                  </div>
+                )}
+                {findClosure(closures, hearing.date) && (
+                  <div
+                    className="flex items-center px-2 py-1 rounded-md text-xs font-medium border text-gray-700 bg-gray-100 border-gray-300"
+                    title={findClosure(closures, hearing.date).name}
+                  >
+                    <CalendarOff className="h-3 w-3 mr-1" />
+                    COURT CLOSED
+                  </div>
+                )}
+                {hearing.recurrence && (
+                  <div
+                    className="flex items-center px-2 py-1 rounded-md text-xs font-medium border text-purple-700 bg-purple-50 border-purple-200"
+                    title={describeRecurrence(hearing.recurrence, hearing.date)}
+                  >
+                    <Repeat className="h-3 w-3 mr-1" />
+                    SERIES
+                  </div>
+                )}
               </div>
               
               <h4 className="text-md font-medium text-gray-900 mb-2">
@@ -516,16 +660,60 @@ const ListView: React.FC<ListViewProps> = ({
               <div className="flex items-center space-x-4 text-sm text-gray-500">
                 <div className="flex items-center space-x-1">
                   <Calendar className="h-4 w-4" />
-                  <span>{formatDate(hearing.date)}</span>
+                  <span>{formatDate(hearing.date, hearing.endDate)}</span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <Clock className="h-4 w-4" />
-                  <span>{hearing.startTime} - {hearing.endTime}</span>
+                  <span>{hearing.allDay ? 'All day' : `${hearing.startTime} - ${hearing.endTime}`}</span>
                 </div>
+                {hearingResources.courtroom && (
+                  <div className="flex items-center space-x-1">
+                    <Landmark className="h-4 w-4" />
+                    <span>{hearingResources.courtroom}</span>
+                  </div>
+                )}
+                {hearingResources.judge && (
+                  <div className="flex items-center space-x-1">
+                    <Gavel className="h-4 w-4" />
+                    <span>{hearingResources.judge}</span>
+                  </div>
+                )}
+                {hearing.coveredBy?.length > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <Users className="h-4 w-4" />
+                    <span>{describePeople(people, hearing.coveredBy)}</span>
+                  </div>
+                )}
               </div>
             </div>
             
             <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              {hearing.type !== 'deadline' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Add deadlines from court rules"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAddDeadlines(hearing);
+                  }}
+                  className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                >
+                  <ListChecks className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Export to calendar (.ics)"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onExportEvents([hearing], hearing.title);
+                }}
+                className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -560,6 +748,35 @@ const ListView: React.FC<ListViewProps> = ({
               </div>
             )}
             
+            {hearing.followUpOf && (
+              <div className="flex items-center space-x-1 mb-3 text-sm text-gray-500">
+                <CornerDownRight className="h-4 w-4" />
+                <span>
+                  Follow-up to {events.find(event => event.id === hearing.followUpOf)?.title ?? 'a hearing no longer on the calendar'}
+                </span>
+              </div>
+            )}
+
+            {hearingResources.courthouse && (
+              <div className="flex items-center space-x-1 mb-3 text-sm text-gray-500">
+                <MapPin className="h-4 w-4" />
+                <span>
+                  {[hearingResources.courthouse.name, hearingResources.courthouse.address].filter(Boolean).join(', ')}
+                  {hearingResources.courthouse.timeZone && <> &middot; {hearingResources.courthouse.timeZone}</>}
+                </span>
+              </div>
+            )}
+
+            {hearing.deadlineSource && (
+              <div className="flex items-center space-x-1 mb-3 text-sm text-gray-500">
+                <ListChecks className="h-4 w-4" />
+                <span>
+                  {describeRule(hearing.deadlineSource.ruleSetId, hearing.deadlineSource.ruleId)}:{' '}
+                  {events.find(event => event.id === hearing.deadlineSource.triggerId)?.title ?? 'a hearing no longer on the calendar'}
+                </span>
+              </div>
+            )}
+
             {hearing.notes && (
               <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
                 <p className="text-sm text-blue-800">
@@ -567,6 +784,38 @@ const ListView: React.FC<ListViewProps> = ({
                 </p>
               </div>
             )}
+
+            {hearing.history && hearing.history.length > 0 && (
+              <div className="mt-3">
+                <div className="flex items-center space-x-1 text-sm font-medium text-gray-700 mb-2">
+                  <History className="h-4 w-4" />
+                  <span>Reschedule history</span>
+                </div>
+                <ol className="space-y-2 border-l-2 border-gray-200 pl-3">
+                  {hearing.history.map((entry, index) => (
+                    <li key={index} className="text-sm">
+                      <div className="text-gray-500 line-through">{formatSlot(entry.from)}</div>
+                      <div className="text-gray-900">{formatSlot(entry.to)}</div>
+                      <div className="text-xs text-gray-500 mt-0.5">
+                        <span className={entry.reason === 'continuance' ? 'font-medium text-orange-700' : ''}>
+                          {describeReason(entry.reason)}
+                        </span>
+                        {entry.note && <> &middot; {entry.note}</>}
+                        {' '}&middot; {entry.changedBy || 'Unknown'}, {entry.changedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {isPastHearing(hearing) && (
+              <OutcomePanel
+                hearing={hearing}
+                onSave={(outcome) => onSaveOutcome(hearing.id, outcome)}
+                onCreateFollowUp={(type) => onCreateFollowUp(hearing, type)}
+              />
+            )}
           </div>
         </CollapsibleContent>
       </Collapsible>
@@ -596,26 +845,121 @@ const ListView: React.FC<ListViewProps> = ({
                 <Filter className="h-4 w-4 text-gray-500" />
                 <span className="text-sm text-gray-600">Filter by status:</span>
                 <div className="flex space-x-1">
-                  {['all', 'new', 'rescheduled', 'cancelled'].map((status) => (
+                  {(['all', ...HEARING_STATUSES] as const).map((status) => (
                     <Button
                       key={status}
                       variant={filter === status ? 'default' : 'ghost'}
                       size="sm"
-                      onClick={() => setFilter(status as any)}
+                      onClick={() => setFilter(status)}
                       className={`text-xs ${
                         filter === status
                           ? 'bg-blue-600 hover:bg-blue-700 text-white'
                           : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
                       }`}
                     >
-                      {status.charAt(0).toUpperCase() + status.slice(1)}
+                      {status === 'all' ? 'All' : getStatusLabel(status)}
                     </Button>
                   ))}
                 </div>
               </div>
+              {resources.courtrooms.length > 0 && (
+                <Select value={courtroomFilter} onValueChange={setCourtroomFilter}>
+                  <SelectTrigger aria-label="Filter by courtroom" className="h-8 w-44 text-xs bg-white border-gray-300 text-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white border-gray-200">
+                    <SelectItem value="all" className="text-foreground hover:bg-accent">All courtrooms</SelectItem>
+                    {resources.courtrooms.map(courtroom => (
+                      <SelectItem key={courtroom.id} value={courtroom.id} className="text-foreground hover:bg-accent">
+                        {describeCourtroom(resources, courtroom.id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {resources.judges.length > 0 && (
+                <Select value={judgeFilter} onValueChange={setJudgeFilter}>
+                  <SelectTrigger aria-label="Filter by judge" className="h-8 w-40 text-xs bg-white border-gray-300 text-gray-900">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white border-gray-200">
+                    <SelectItem value="all" className="text-foreground hover:bg-accent">All judges</SelectItem>
+                    {resources.judges.map(judge => (
+                      <SelectItem key={judge.id} value={judge.id} className="text-foreground hover:bg-accent">
+                        {judge.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
             
             <div className="flex items-center space-x-2">
+              <Button
+                variant={showClosedCases ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setShowClosedCases(!showClosedCases)}
+                className={`text-xs ${
+                  showClosedCases
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                }`}
+              >
+                <Archive className="h-3 w-3 mr-1" />
+                Show closed
+              </Button>
+              <Button
+                variant={missingOutcomeOnly ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setMissingOutcomeOnly(!missingOutcomeOnly)}
+                className={`text-xs ${
+                  missingOutcomeOnly
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                }`}
+              >
+                <ClipboardX className="h-3 w-3 mr-1" />
+                Missing outcome ({events.filter(event => isMissingOutcome(event)).length})
+              </Button>
+              {myPersonId && (
+                <Button
+                  variant={myHearingsOnly ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setMyHearingsOnly(!myHearingsOnly)}
+                  className={`text-xs ${
+                    myHearingsOnly
+                      ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                      : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                  }`}
+                >
+                  <UserCheck className="h-3 w-3 mr-1" />
+                  My hearings ({events.filter(event => isCoveredBy(event, myPersonId)).length})
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={Object.keys(groupedByCases).length === 0}
+                    className="text-xs text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    disabled={filteredEvents.length === 0}
+                    onSelect={() => onExportEvents(filteredEvents, 'Filtered hearings')}
+                  >
+                    Calendar (.ics)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => onExportCsv(Object.values(groupedByCases), 'Filtered docket')}>
+                    Spreadsheet (.csv)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <span className="text-sm text-gray-600">Sort by:</span>
               {['date', 'case', 'title'].map((sort) => (
                 <Button
@@ -646,9 +990,15 @@ const ListView: React.FC<ListViewProps> = ({
             <p className="text-gray-500">
               {searchQuery ? 
                 'No cases match your search criteria. Try different keywords.' :
-                filter === 'all' 
-                  ? 'Add your first hearing to get started' 
-                  : `No ${filter} hearings found. Try changing the filter.`
+                missingOutcomeOnly
+                  ? 'Every past hearing has an outcome recorded.'
+                  : showMyHearings
+                    ? 'No hearings are assigned to you, directly or through a case team.'
+                  : courtroomFilter !== 'all' || judgeFilter !== 'all'
+                    ? 'No hearings match the selected courtroom or judge.'
+                  : filter === 'all' 
+                    ? 'Add your first hearing to get started' 
+                    : `No ${filter} hearings found. Try changing the filter.`
               }
             </p>
           </div>
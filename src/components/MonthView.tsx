@@ -0,0 +1,201 @@
+// Month View Component with per-day hearing summaries
+import React from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Edit, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { formatEventTimes, occursOn } from "@/lib/event-span";
+import { getStatus, isCancelledStatus } from "@/lib/statuses";
+import { findClosure } from "@/lib/closures";
+import { ClosureRecord } from "@/types/calendar";
+import { Event } from './Calendar';
+
+interface MonthViewProps {
+  events: Event[];
+  currentMonth: Date;
+  onMonthChange: (date: Date) => void;
+  onSelectDay: (date: Date) => void;
+  onEditEvent: (event: Event) => void;
+  onDeleteEvent: (eventId: string) => void;
+  conflictIds?: Set<string>;
+  closures?: ClosureRecord[];
+}
+
+const MAX_VISIBLE_EVENTS = 3;
+
+const MonthView: React.FC<MonthViewProps> = ({
+  events,
+  currentMonth,
+  onMonthChange,
+  onSelectDay,
+  onEditEvent,
+  onDeleteEvent,
+  conflictIds = new Set(),
+  closures = []
+}) => {
+  // Full weeks (Monday to Sunday) covering the month, so the grid is always rectangular
+  const getMonthGrid = (date: Date) => {
+    const firstOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+    const lastOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+
+    const start = new Date(firstOfMonth);
+    const startDay = start.getDay();
+    start.setDate(start.getDate() + (startDay === 0 ? -6 : 1 - startDay));
+
+    const days = [];
+    const day = new Date(start);
+    while (day <= lastOfMonth || days.length % 7 !== 0) {
+      days.push(new Date(day));
+      day.setDate(day.getDate() + 1);
+    }
+    return days;
+  };
+
+  const monthDays = getMonthGrid(currentMonth);
+  const dayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const newDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + (direction === 'next' ? 1 : -1), 1);
+    onMonthChange(newDate);
+  };
+
+  // Multi-day hearings show on every day they cover, all-day ones first
+  const getEventsForDay = (date: Date) => {
+    return events
+      .filter(event => occursOn(event, date))
+      .sort((a, b) => Number(!!b.allDay) - Number(!!a.allDay) || a.startTime.localeCompare(b.startTime));
+  };
+
+  const getStatusChipColor = (status: Event['status']) =>
+    `${getStatus(status).chipClassName} ${isCancelledStatus(status) ? 'line-through' : ''}`;
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-white">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigateMonth('prev')}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+
+        <h2 className="text-xl font-semibold text-gray-900">
+          {currentMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </h2>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigateMonth('next')}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Month Grid */}
+      <div className="flex-1 overflow-auto p-4">
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+          {dayNames.map(name => (
+            <div key={name} className="bg-gray-50 px-2 py-2 text-center text-xs text-gray-500 uppercase font-medium">
+              {name}
+            </div>
+          ))}
+
+          {monthDays.map(day => {
+            const dayEvents = getEventsForDay(day);
+            const isCurrentMonth = day.getMonth() === currentMonth.getMonth();
+            const isToday = day.toDateString() === new Date().toDateString();
+            const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+            const closure = findClosure(closures, day);
+
+            return (
+              <div
+                key={day.toISOString()}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelectDay(day)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelectDay(day);
+                  }
+                }}
+                className={`min-h-[110px] p-2 cursor-pointer hover:bg-accent transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isCurrentMonth ? (closure ? 'bg-gray-100' : isWeekend ? 'bg-gray-50' : 'bg-white') : 'bg-gray-50 text-gray-400'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`text-sm font-semibold ${
+                    isToday
+                      ? 'bg-blue-600 text-white rounded-full w-6 h-6 flex items-center justify-center'
+                      : isCurrentMonth ? 'text-gray-900' : 'text-gray-400'
+                  }`}>
+                    {day.getDate()}
+                  </span>
+                  {dayEvents.length > 0 && (
+                    <span className="bg-blue-100 text-blue-800 text-xs px-2 py-0.5 rounded-full">
+                      {dayEvents.length}
+                    </span>
+                  )}
+                </div>
+                {closure && <div className="text-xs text-gray-500 truncate mb-1">Closed: {closure.name}</div>}
+
+                <div className="space-y-1">
+                  {dayEvents.slice(0, MAX_VISIBLE_EVENTS).map(event => (
+                    <div
+                      key={event.id}
+                      className={`group flex items-center justify-between px-1.5 py-0.5 rounded border text-xs ${getStatusChipColor(event.status)} ${
+                        conflictIds.has(event.id) ? 'ring-1 ring-red-500' : ''
+                      }`}
+                      title={`${event.title} (${formatEventTimes(event)})`}
+                    >
+                      <span className="truncate">
+                        {conflictIds.has(event.id) && (
+                          <AlertTriangle className="inline h-3 w-3 mr-0.5 text-red-600" aria-label="Scheduling conflict" />
+                        )}
+                        <span className="font-medium">{event.allDay ? 'All day' : event.startTime}</span> {event.caseNumber}
+                      </span>
+                      <div className="flex space-x-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          type="button"
+                          aria-label="Edit hearing"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onEditEvent(event);
+                          }}
+                          className="p-0.5 rounded hover:bg-white/60"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </button>
+                        <button
+                          type="button"
+                          aria-label="Delete hearing"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDeleteEvent(event.id);
+                          }}
+                          className="p-0.5 rounded hover:bg-red-200"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {dayEvents.length > MAX_VISIBLE_EVENTS && (
+                    <div className="text-xs text-gray-500 px-1.5">
+                      +{dayEvents.length - MAX_VISIBLE_EVENTS} more
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MonthView;
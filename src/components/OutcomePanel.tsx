@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { CalendarPlus, ClipboardCheck, Edit, FilePlus } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeResult, OUTCOME_RESULTS, OutcomeInput } from "@/lib/outcomes";
+import { EventType, OutcomeResult } from "@/types/calendar";
+import { Event } from './Calendar';
+
+interface OutcomePanelProps {
+  hearing: Event;
+  onSave: (outcome: OutcomeInput) => void;
+  onCreateFollowUp: (type: EventType) => void;
+}
+
+// What happened at a past hearing, and the follow-up hearings or deadlines it calls for
+const OutcomePanel: React.FC<OutcomePanelProps> = ({ hearing, onSave, onCreateFollowUp }) => {
+  const { outcome } = hearing;
+  const [isEditing, setIsEditing] = useState(!outcome);
+  const [result, setResult] = useState<OutcomeResult>(outcome?.result ?? 'granted');
+  const [summary, setSummary] = useState(outcome?.summary ?? '');
+  const [nextSteps, setNextSteps] = useState(outcome?.nextSteps ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ result, summary, nextSteps });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mt-3 bg-gray-50 border border-gray-200 rounded-md p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-1 text-sm font-medium text-gray-700">
+          <ClipboardCheck className="h-4 w-4" />
+          <span>Outcome</span>
+        </div>
+        {outcome && !isEditing && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsEditing(true)}
+            className="h-7 text-xs text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            <Edit className="h-3 w-3 mr-1" />
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor={`result-${hearing.id}`} className="text-xs text-gray-700">Result</Label>
+            <Select value={result} onValueChange={(value) => setResult(value as OutcomeResult)}>
+              <SelectTrigger id={`result-${hearing.id}`} className="bg-white border-gray-300 text-gray-900
+                focus:border-blue-500 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                {OUTCOME_RESULTS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-foreground hover:bg-accent">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`summary-${hearing.id}`} className="text-xs text-gray-700">Ruling summary</Label>
+            <Textarea
+              id={`summary-${hearing.id}`}
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="e.g. Motion to compel granted as to interrogatories 3-7"
+              className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                focus:border-blue-500 focus:ring-blue-500 min-h-[60px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`nextSteps-${hearing.id}`} className="text-xs text-gray-700">Next steps</Label>
+            <Textarea
+              id={`nextSteps-${hearing.id}`}
+              value={nextSteps}
+              onChange={(e) => setNextSteps(e.target.value)}
+              placeholder="One per line, e.g. Serve supplemental responses"
+              className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                focus:border-blue-500 focus:ring-blue-500 min-h-[60px]"
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            {outcome && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+                className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+              >
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" className="bg-blue-600 hover:bg-blue-700 text-white">
+              Save outcome
+            </Button>
+          </div>
+        </form>
+      ) : outcome && (
+        <div className="space-y-2 text-sm">
+          <div className="font-medium text-gray-900">{describeResult(outcome.result)}</div>
+          {outcome.summary && <p className="text-gray-700 whitespace-pre-line">{outcome.summary}</p>}
+          {outcome.nextSteps && (
+            <p className="text-gray-700 whitespace-pre-line">
+              <strong>Next steps:</strong> {outcome.nextSteps}
+            </p>
+          )}
+          <div className="text-xs text-gray-500">
+            Recorded by {outcome.recordedBy || 'Unknown'}, {outcome.recordedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </div>
+          <div className="flex space-x-2 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onCreateFollowUp('hearing')}
+              className="h-7 text-xs border-gray-300 text-gray-700 hover:bg-accent"
+            >
+              <CalendarPlus className="h-3 w-3 mr-1" />
+              Follow-up hearing
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onCreateFollowUp('deadline')}
+              className="h-7 text-xs border-gray-300 text-gray-700 hover:bg-accent"
+            >
+              <FilePlus className="h-3 w-3 mr-1" />
+              Deadline
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutcomePanel;
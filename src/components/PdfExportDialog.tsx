@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { FileText } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toDateInputValue, fromDateInputValue } from "@/lib/dates";
+import { DocketRange, getDocketTitle } from "@/lib/docket";
+import { downloadFile, toFileName } from "@/lib/download";
+import { createCaseSummaryPdf, createDocketPdf } from "@/lib/pdf/reports";
+import { Case, Event } from './Calendar';
+
+export type PdfRequest =
+  | { type: 'docket'; date: Date; range: DocketRange }
+  | { type: 'case'; caseItem: Case };
+
+interface PdfExportDialogProps {
+  request: PdfRequest | null;
+  events: Event[];
+  cases: Case[];
+  firmName: string;
+  onFirmNameChange: (firmName: string) => void;
+  onClose: () => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({
+  request,
+  events,
+  cases,
+  firmName,
+  onFirmNameChange,
+  onClose
+}) => {
+  const [firm, setFirm] = useState(firmName);
+  const [date, setDate] = useState(new Date());
+  const [range, setRange] = useState<DocketRange>('week');
+  const [includeCancelled, setIncludeCancelled] = useState(true);
+
+  // Each request starts from its own date and range, and the saved firm name
+  useEffect(() => {
+    if (!request) return;
+    setFirm(firmName);
+    if (request.type === 'docket') {
+      setDate(request.date);
+      setRange(request.range);
+    }
+  }, [request, firmName]);
+
+  const docketOptions = { date, range, includeCancelled };
+  const label = request?.type === 'case'
+    ? `${request.caseItem.caseNumber} case summary`
+    : getDocketTitle(docketOptions);
+
+  const handleDownload = () => {
+    if (!request) return;
+
+    if (firm.trim() !== firmName) onFirmNameChange(firm.trim());
+    const pdf = request.type === 'case'
+      ? createCaseSummaryPdf(request.caseItem, events, firm.trim())
+      : createDocketPdf(events, cases, docketOptions, firm.trim());
+    downloadFile(`${toFileName(label)}.pdf`, pdf, 'application/pdf');
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Download PDF
+          </DialogTitle>
+          <DialogDescription>{label}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="firmName" className="text-gray-700">Firm name</Label>
+            <Input
+              id="firmName"
+              value={firm}
+              onChange={(e) => setFirm(e.target.value)}
+              placeholder="Shown in the page header"
+              className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          {request?.type === 'docket' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="docketDate" className="text-gray-700">Date</Label>
+                  <Input
+                    id="docketDate"
+                    type="date"
+                    value={toDateInputValue(date)}
+                    onChange={(e) => e.target.value && setDate(fromDateInputValue(e.target.value))}
+                    className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-gray-700">Range</Label>
+                  <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+                    {(['day', 'week'] as DocketRange[]).map(option => (
+                      <Button
+                        key={option}
+                        type="button"
+                        variant={range === option ? 'default' : 'ghost'}
+                        size="sm"
+                        onClick={() => setRange(option)}
+                        className={`flex-1 ${range === option
+                          ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                          : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'}`}
+                      >
+                        {option === 'day' ? 'Day' : 'Week'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={includeCancelled}
+                  onCheckedChange={(checked) => setIncludeCancelled(checked === true)}
+                />
+                <span>Include cancelled hearings</span>
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfExportDialog;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Edit, Plus, Trash2, UserCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getNextPersonColor, getPersonColorClasses, PERSON_ROLES, PersonInput } from "@/lib/people";
+import { tagColorNames } from "@/lib/tag-colors";
+import { PersonRecord, PersonRole } from "@/types/calendar";
+
+interface PeopleDialogProps {
+  isOpen: boolean;
+  people: PersonRecord[];
+  // Who "My hearings" shows; empty when the user hasn't picked themselves
+  myPersonId: string;
+  onSavePerson: (input: PersonInput, personId?: string) => void;
+  onDeletePerson: (personId: string) => void;
+  onMyPersonChange: (personId: string) => void;
+  onClose: () => void;
+}
+
+// Attorneys and paralegals who cover hearings; each gets a color for overlaid calendars
+const PeopleDialog: React.FC<PeopleDialogProps> = ({
+  isOpen,
+  people,
+  myPersonId,
+  onSavePerson,
+  onDeletePerson,
+  onMyPersonChange,
+  onClose
+}) => {
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<PersonRole>('attorney');
+  const [color, setColor] = useState<string>();
+  const [editingId, setEditingId] = useState<string>();
+  const selectedColor = color ?? getNextPersonColor(people);
+
+  const resetForm = () => {
+    setName('');
+    setRole('attorney');
+    setColor(undefined);
+    setEditingId(undefined);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSavePerson({ name, role, color: selectedColor }, editingId);
+    resetForm();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            People
+          </DialogTitle>
+          <DialogDescription>
+            Assign people to cases and hearings to see who is covering what.
+          </DialogDescription>
+        </DialogHeader>
+
+        {people.length > 0 && (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+            {people.map(person => (
+              <li key={person.id} className="flex items-center justify-between px-3 py-2">
+                <span className="flex items-center min-w-0">
+                  <span className={`w-3 h-3 rounded-full mr-2 shrink-0 ${getPersonColorClasses(person.color).swatch}`} />
+                  <span className="font-medium text-gray-900 truncate">{person.name}</span>
+                  <span className="text-xs text-gray-500 ml-1">
+                    &middot; {PERSON_ROLES.find(option => option.value === person.role)?.label}
+                  </span>
+                  {person.id === myPersonId && <span className="text-xs text-blue-600 ml-1">&middot; Me</span>}
+                </span>
+                <span className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`${person.name} is me`}
+                    aria-pressed={person.id === myPersonId}
+                    title="This is me"
+                    onClick={() => onMyPersonChange(person.id === myPersonId ? '' : person.id)}
+                    className={person.id === myPersonId
+                      ? 'text-blue-600 hover:text-blue-700 hover:bg-blue-50'
+                      : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'}
+                  >
+                    <UserCheck className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Edit ${person.name}`}
+                    onClick={() => {
+                      setName(person.name);
+                      setRole(person.role);
+                      setColor(person.color);
+                      setEditingId(person.id);
+                    }}
+                    className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove ${person.name}`}
+                    onClick={() => onDeletePerson(person.id)}
+                    className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="grid grid-cols-[1fr_auto] gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Jordan Reyes"
+              aria-label="Name"
+              className="bg-white border-gray-300 text-gray-900 placeholder-gray-500
+                focus:border-blue-500 focus:ring-blue-500"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as PersonRole)}>
+              <SelectTrigger aria-label="Role" className="w-32 bg-white border-gray-300 text-gray-900
+                focus:border-blue-500 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white border-gray-200">
+                {PERSON_ROLES.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-foreground hover:bg-accent">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Color">
+            {tagColorNames.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={selectedColor === option}
+                aria-label={option}
+                onClick={() => setColor(option)}
+                className={`w-6 h-6 rounded-full ${getPersonColorClasses(option).swatch} ${
+                  selectedColor === option ? 'ring-2 ring-offset-2 ring-gray-400' : ''
+                }`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-end space-x-2">
+            {editingId && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={resetForm}
+                className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="submit"
+              disabled={!name.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {editingId ? 'Save person' : <><Plus className="h-4 w-4 mr-2" />Add person</>}
+            </Button>
+          </div>
+        </form>
+
+        <div className="flex justify-end pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PeopleDialog;
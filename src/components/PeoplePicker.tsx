@@ -0,0 +1,44 @@
+// Toggle chips for choosing several people, e.g. a case's team or who covers a hearing
+import React from 'react';
+import { Check } from 'lucide-react';
+import { getPersonColorClasses } from "@/lib/people";
+import { PersonRecord } from "@/types/calendar";
+
+interface PeoplePickerProps {
+  people: PersonRecord[];
+  selected: string[];
+  onChange: (personIds: string[]) => void;
+  label?: string;
+}
+
+const PeoplePicker: React.FC<PeoplePickerProps> = ({ people, selected, onChange, label }) => {
+  const toggle = (personId: string) =>
+    onChange(selected.includes(personId) ? selected.filter(id => id !== personId) : [...selected, personId]);
+
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label={label}>
+      {people.map(person => {
+        const isSelected = selected.includes(person.id);
+        return (
+          <button
+            key={person.id}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => toggle(person.id)}
+            className={`flex items-center px-2 py-1 rounded-md text-xs font-medium border transition-colors ${
+              isSelected
+                ? 'bg-blue-50 text-blue-700 border-blue-300'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-accent'
+            }`}
+          >
+            <span className={`w-2 h-2 rounded-full mr-1.5 ${getPersonColorClasses(person.color).swatch}`} />
+            {person.name}
+            {isSelected && <Check className="h-3 w-3 ml-1" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PeoplePicker;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { RecurrenceScope } from "@/lib/recurrence";
+
+interface RecurrenceScopeDialogProps {
+  action: 'edit' | 'delete' | null;
+  onConfirm: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+const scopeOptions: { value: RecurrenceScope; label: string }[] = [
+  { value: 'this', label: 'This occurrence' },
+  { value: 'following', label: 'This and following occurrences' },
+  { value: 'all', label: 'All occurrences' }
+];
+
+// Asks which part of a recurring hearing an edit or delete applies to
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  action,
+  onConfirm,
+  onCancel
+}) => {
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+
+  useEffect(() => {
+    if (action) setScope('this');
+  }, [action]);
+
+  return (
+    <Dialog open={!!action} onOpenChange={onCancel}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-sm shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            {action === 'delete' ? 'Delete recurring hearing' : 'Edit recurring hearing'}
+          </DialogTitle>
+          <DialogDescription>
+            This hearing is part of a series.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as RecurrenceScope)} className="space-y-2">
+          {scopeOptions.map(option => (
+            <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+              <RadioGroupItem value={option.value} />
+              <span>{option.label}</span>
+            </label>
+          ))}
+        </RadioGroup>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onCancel}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(scope)}
+            className={action === 'delete'
+              ? 'bg-red-600 hover:bg-red-700 text-white'
+              : 'bg-blue-600 hover:bg-blue-700 text-white'}
+          >
+            {action === 'delete' ? 'Delete' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurrenceScopeDialog;
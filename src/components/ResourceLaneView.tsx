@@ -0,0 +1,267 @@
+// One day's hearings in a column per courtroom, judge or attorney, for planning who sits where
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Edit, Gavel, Landmark, Repeat, Trash2, Users } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { formatTime12Hour, getHourRange, layoutDayEvents } from "@/lib/timeline";
+import { shiftWeekday } from "@/lib/reschedule";
+import { formatEventTimes, isSpanning } from "@/lib/event-span";
+import { getStatusOpacity } from "@/lib/statuses";
+import { findClosure } from "@/lib/closures";
+import { buildLanes, LaneGrouping } from "@/lib/lanes";
+import { emptyResources, Resources } from "@/lib/resources";
+import { ClosureRecord, PersonRecord } from "@/types/calendar";
+import { Event } from './Calendar';
+
+interface ResourceLaneViewProps {
+  events: Event[];
+  currentDay: Date;
+  onDayChange: (date: Date) => void;
+  onEditEvent: (event: Event) => void;
+  onDeleteEvent: (eventId: string) => void;
+  conflictIds?: Set<string>;
+  closures?: ClosureRecord[];
+  resources?: Resources;
+  people?: PersonRecord[];
+}
+
+const HOUR_HEIGHT = 56;
+
+const ResourceLaneView: React.FC<ResourceLaneViewProps> = ({
+  events,
+  currentDay,
+  onDayChange,
+  onEditEvent,
+  onDeleteEvent,
+  conflictIds = new Set(),
+  closures = [],
+  resources = emptyResources,
+  people = []
+}) => {
+  const [grouping, setGrouping] = useState<LaneGrouping>('courtroom');
+  const lanes = buildLanes(events, currentDay, grouping, resources, people);
+  const closure = findClosure(closures, currentDay);
+
+  const { startHour, endHour } = getHourRange(lanes.flatMap(lane => lane.events.filter(event => !isSpanning(event))));
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const gridHeight = hours.length * HOUR_HEIGHT;
+  const minutesToOffset = (minutes: number) => ((minutes - startHour * 60) / 60) * HOUR_HEIGHT;
+
+  const renderActions = (event: Event) => (
+    <div className="flex shrink-0 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+      <Button
+        size="sm"
+        variant="ghost"
+        aria-label={`Edit ${event.title}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          onEditEvent(event);
+        }}
+        className="h-5 w-5 p-0 hover:bg-white/20 text-white"
+      >
+        <Edit className="h-3 w-3" />
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        aria-label={`Delete ${event.title}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          onDeleteEvent(event.id);
+        }}
+        className="h-5 w-5 p-0 hover:bg-red-500/20 text-white"
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  const renderTitle = (event: Event) => (
+    <div className="flex items-center space-x-1 min-w-0">
+      {conflictIds.has(event.id) && (
+        <AlertTriangle className="h-3 w-3 text-yellow-300 shrink-0" aria-label="Scheduling conflict" />
+      )}
+      {event.seriesId && (
+        <Repeat className="h-3 w-3 text-white shrink-0" aria-label="Recurring hearing" />
+      )}
+      <div className="font-medium text-white text-xs truncate">{event.title}</div>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {/* Day Navigation */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-white">
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label="Previous court day"
+          onClick={() => onDayChange(shiftWeekday(currentDay, -1))}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+
+        <div className="flex items-center space-x-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {currentDay.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+            </h2>
+            {closure && <div className="text-xs text-gray-500">Closed: {closure.name}</div>}
+          </div>
+
+          <div className="flex items-center space-x-1 bg-gray-50 rounded-lg p-1 border border-gray-200">
+            {([
+              { value: 'courtroom', label: 'Courtrooms', icon: Landmark },
+              { value: 'judge', label: 'Judges', icon: Gavel },
+              { value: 'person', label: 'People', icon: Users }
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={grouping === value ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setGrouping(value)}
+                className={`h-7 text-xs ${grouping === value
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-sm'
+                  : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                }`}
+              >
+                <Icon className="h-3 w-3 mr-1" />
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label="Next court day"
+          onClick={() => onDayChange(shiftWeekday(currentDay, 1))}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        {lanes.length === 0 ? (
+          <div className="text-center py-12">
+            <Landmark className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-600 mb-2">
+              No {grouping === 'courtroom' ? 'courtrooms' : grouping === 'judge' ? 'judges' : 'people'} yet
+            </h3>
+            <p className="text-gray-500">
+              Add them under {grouping === 'person' ? 'People' : 'Courts'}, then assign hearings to them.
+            </p>
+          </div>
+        ) : (
+          <div className={`inline-flex min-w-full border border-gray-200 rounded-lg overflow-hidden ${closure ? 'bg-gray-100' : 'bg-white'}`}>
+            {/* Hour Axis */}
+            <div className="w-16 shrink-0">
+              <div className="h-16 border-b border-gray-200 bg-gray-50" />
+              <div className="h-10 border-b border-gray-200" />
+              <div className="relative" style={{ height: gridHeight }}>
+                {hours.map(hour => (
+                  <div
+                    key={hour}
+                    className="absolute right-2 -translate-y-1/2 text-xs text-gray-400"
+                    style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+                  >
+                    {hour === startHour ? '' : formatTime12Hour(`${hour}:00`)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {lanes.map(lane => {
+              const spanning = lane.events.filter(isSpanning);
+
+              return (
+                <div key={lane.id || 'unassigned'} className="flex-1 min-w-[12rem] border-l border-gray-200">
+                  {/* Lane Header */}
+                  <div className={`h-16 px-3 py-2 border-b border-gray-200 ${lane.overbooked ? 'bg-red-50' : 'bg-gray-50'}`}>
+                    <div className={`text-sm font-medium truncate ${lane.id ? 'text-gray-900' : 'text-gray-500 italic'}`} title={lane.label}>
+                      {lane.label}
+                    </div>
+                    <div className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
+                      <span>{lane.events.length} hearing{lane.events.length !== 1 ? 's' : ''}</span>
+                      {lane.overbooked && (
+                        <span className="flex items-center font-medium text-red-700">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Overbooked
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* All-day and multi-day hearings */}
+                  <div className="h-10 p-1 space-y-1 overflow-y-auto border-b border-gray-200">
+                    {spanning.map(event => (
+                      <div
+                        key={event.id}
+                        tabIndex={0}
+                        className={`group flex items-center justify-between px-2 py-0.5 rounded-md border
+                          ${event.type === 'deadline' ? 'bg-amber-500 border-amber-400' : 'bg-indigo-500 border-indigo-400'}
+                          focus:outline-none focus:ring-2 focus:ring-blue-300
+                          ${conflictIds.has(event.id) ? 'ring-2 ring-red-500' : ''}
+                          ${getStatusOpacity(event.status)}`}
+                        title={`${event.title} (${formatEventTimes(event)})`}
+                      >
+                        {renderTitle(event)}
+                        {renderActions(event)}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Timed hearings */}
+                  <div className="relative" style={{ height: gridHeight }}>
+                    {hours.map(hour => (
+                      <div
+                        key={hour}
+                        className="absolute inset-x-0 border-t border-gray-100"
+                        style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+                      />
+                    ))}
+
+                    {layoutDayEvents(lane.events.filter(event => !isSpanning(event))).map(({ event, start, end, column, columns }) => (
+                      <div
+                        key={event.id}
+                        tabIndex={0}
+                        aria-label={`${event.title}, ${formatTime12Hour(event.startTime)} to ${formatTime12Hour(event.endTime)}`}
+                        className={`absolute p-1.5 rounded-md border overflow-hidden
+                          ${event.type === 'deadline' ? 'bg-amber-500 border-amber-400' : 'bg-blue-500 border-blue-400'}
+                          group hover:shadow-md hover:z-10 transition-shadow duration-200
+                          focus:outline-none focus:ring-2 focus:ring-blue-300 focus:z-10
+                          ${conflictIds.has(event.id) ? 'ring-2 ring-red-500' : ''}
+                          ${getStatusOpacity(event.status)}`}
+                        style={{
+                          top: minutesToOffset(start),
+                          height: Math.max(minutesToOffset(end) - minutesToOffset(start), 18),
+                          left: `calc(${(column / columns) * 100}% + 2px)`,
+                          width: `calc(${100 / columns}% - 4px)`
+                        }}
+                        title={`${event.title} (${formatTime12Hour(event.startTime)} - ${formatTime12Hour(event.endTime)})`}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            {renderTitle(event)}
+                            <div className="text-white text-xs opacity-90 truncate">
+                              {formatTime12Hour(event.startTime)} - {formatTime12Hour(event.endTime)}
+                            </div>
+                          </div>
+                          {renderActions(event)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResourceLaneView;
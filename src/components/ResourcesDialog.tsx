@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  COMMON_TIME_ZONES,
+  CourthouseInput,
+  CourtroomInput,
+  describeCourtroom,
+  findCourthouse,
+  JudgeInput,
+  Resources
+} from "@/lib/resources";
+import { isKnownTimeZone } from "@/lib/ical/parse";
+
+interface ResourcesDialogProps {
+  isOpen: boolean;
+  resources: Resources;
+  onSaveCourthouse: (input: CourthouseInput, courthouseId?: string) => void;
+  onDeleteCourthouse: (courthouseId: string) => void;
+  onSaveCourtroom: (input: CourtroomInput, courtroomId?: string) => void;
+  onDeleteCourtroom: (courtroomId: string) => void;
+  onSaveJudge: (input: JudgeInput, judgeId?: string) => void;
+  onDeleteJudge: (judgeId: string) => void;
+  onClose: () => void;
+}
+
+const NO_COURTROOM = 'none';
+
+const inputClassName = `bg-white border-gray-300 text-gray-900 placeholder-gray-500
+  focus:border-blue-500 focus:ring-blue-500`;
+
+const ResourceRow: React.FC<{
+  label: string;
+  detail?: string;
+  onEdit: () => void;
+  onDelete: () => void;
+}> = ({ label, detail, onEdit, onDelete }) => (
+  <li className="flex items-center justify-between px-3 py-2">
+    <span className="min-w-0">
+      <span className="font-medium text-gray-900">{label}</span>
+      {detail && <span className="text-xs text-gray-500"> &middot; {detail}</span>}
+    </span>
+    <span className="flex shrink-0">
+      <Button
+        variant="ghost"
+        size="sm"
+        aria-label={`Edit ${label}`}
+        onClick={onEdit}
+        className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+      >
+        <Edit className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        aria-label={`Remove ${label}`}
+        onClick={onDelete}
+        className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </span>
+  </li>
+);
+
+// Where hearings are held and who hears them; hearings pick from these in EventForm
+const ResourcesDialog: React.FC<ResourcesDialogProps> = ({
+  isOpen,
+  resources,
+  onSaveCourthouse,
+  onDeleteCourthouse,
+  onSaveCourtroom,
+  onDeleteCourtroom,
+  onSaveJudge,
+  onDeleteJudge,
+  onClose
+}) => {
+  const defaultTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const emptyCourthouse: CourthouseInput = { name: '', address: '', timeZone: defaultTimeZone };
+  const [courthouse, setCourthouse] = useState<CourthouseInput>(emptyCourthouse);
+  const [courthouseId, setCourthouseId] = useState<string>();
+  const [courtroom, setCourtroom] = useState<CourtroomInput>({ courthouseId: '', name: '' });
+  const [courtroomId, setCourtroomId] = useState<string>();
+  const [judge, setJudge] = useState<JudgeInput>({ name: '', courtroomId: '' });
+  const [judgeId, setJudgeId] = useState<string>();
+
+  const timeZoneError = courthouse.timeZone && !isKnownTimeZone(courthouse.timeZone)
+    ? 'Unknown time zone, e.g. America/Los_Angeles'
+    : null;
+
+  const handleSaveCourthouse = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courthouse.name.trim() || timeZoneError) return;
+    onSaveCourthouse(courthouse, courthouseId);
+    setCourthouse(emptyCourthouse);
+    setCourthouseId(undefined);
+  };
+
+  const handleSaveCourtroom = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!courtroom.name.trim() || !courtroom.courthouseId) return;
+    onSaveCourtroom(courtroom, courtroomId);
+    setCourtroom({ courthouseId: courtroom.courthouseId, name: '' });
+    setCourtroomId(undefined);
+  };
+
+  const handleSaveJudge = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!judge.name.trim()) return;
+    onSaveJudge(judge, judgeId);
+    setJudge({ name: '', courtroomId: '' });
+    setJudgeId(undefined);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Courts
+          </DialogTitle>
+          <DialogDescription>
+            Courthouses, courtrooms and judges to assign to hearings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="courthouses">
+          <TabsList className="grid grid-cols-3">
+            <TabsTrigger value="courthouses">Courthouses</TabsTrigger>
+            <TabsTrigger value="courtrooms">Courtrooms</TabsTrigger>
+            <TabsTrigger value="judges">Judges</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="courthouses" className="space-y-3">
+            {resources.courthouses.length > 0 && (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+                {resources.courthouses.map(item => (
+                  <ResourceRow
+                    key={item.id}
+                    label={item.name}
+                    detail={[item.address, item.timeZone].filter(Boolean).join(' · ')}
+                    onEdit={() => {
+                      setCourthouse({ name: item.name, address: item.address, timeZone: item.timeZone });
+                      setCourthouseId(item.id);
+                    }}
+                    onDelete={() => onDeleteCourthouse(item.id)}
+                  />
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleSaveCourthouse} className="space-y-2">
+              <Input
+                value={courthouse.name}
+                onChange={(e) => setCourthouse({ ...courthouse, name: e.target.value })}
+                placeholder="Name, e.g. Stanley Mosk Courthouse"
+                aria-label="Courthouse name"
+                className={inputClassName}
+              />
+              <Input
+                value={courthouse.address}
+                onChange={(e) => setCourthouse({ ...courthouse, address: e.target.value })}
+                placeholder="Address"
+                aria-label="Courthouse address"
+                className={inputClassName}
+              />
+              <Input
+                value={courthouse.timeZone}
+                onChange={(e) => setCourthouse({ ...courthouse, timeZone: e.target.value })}
+                placeholder="Time zone, e.g. America/Los_Angeles"
+                aria-label="Courthouse time zone"
+                list="courthouse-time-zones"
+                className={inputClassName}
+              />
+              <datalist id="courthouse-time-zones">
+                {COMMON_TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+              </datalist>
+              {timeZoneError && <p className="text-sm text-red-600">{timeZoneError}</p>}
+              <div className="flex justify-end space-x-2">
+                {courthouseId && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setCourthouse(emptyCourthouse);
+                      setCourthouseId(undefined);
+                    }}
+                    className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  disabled={!courthouse.name.trim() || !!timeZoneError}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  {courthouseId ? 'Save courthouse' : <><Plus className="h-4 w-4 mr-2" />Add courthouse</>}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="courtrooms" className="space-y-3">
+            {resources.courthouses.length === 0 ? (
+              <p className="text-sm text-gray-500">Add a courthouse first.</p>
+            ) : (
+              <>
+                {resources.courtrooms.length > 0 && (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+                    {resources.courtrooms.map(item => (
+                      <ResourceRow
+                        key={item.id}
+                        label={item.name}
+                        detail={findCourthouse(resources, item.courthouseId)?.name}
+                        onEdit={() => {
+                          setCourtroom({ courthouseId: item.courthouseId, name: item.name });
+                          setCourtroomId(item.id);
+                        }}
+                        onDelete={() => onDeleteCourtroom(item.id)}
+                      />
+                    ))}
+                  </ul>
+                )}
+                <form onSubmit={handleSaveCourtroom} className="space-y-2">
+                  <Select
+                    value={courtroom.courthouseId}
+                    onValueChange={(value) => setCourtroom({ ...courtroom, courthouseId: value })}
+                  >
+                    <SelectTrigger aria-label="Courthouse" className={inputClassName}>
+                      <SelectValue placeholder="Courthouse" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white border-gray-200">
+                      {resources.courthouses.map(item => (
+                        <SelectItem key={item.id} value={item.id} className="text-foreground hover:bg-accent">
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={courtroom.name}
+                    onChange={(e) => setCourtroom({ ...courtroom, name: e.target.value })}
+                    placeholder="Name, e.g. Dept. 12"
+                    aria-label="Courtroom name"
+                    className={inputClassName}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    {courtroomId && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => {
+                          setCourtroom({ courthouseId: courtroom.courthouseId, name: '' });
+                          setCourtroomId(undefined);
+                        }}
+                        className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                    <Button
+                      type="submit"
+                      disabled={!courtroom.name.trim() || !courtroom.courthouseId}
+                      className="bg-blue-600 hover:bg-blue-700 text-white"
+                    >
+                      {courtroomId ? 'Save courtroom' : <><Plus className="h-4 w-4 mr-2" />Add courtroom</>}
+                    </Button>
+                  </div>
+                </form>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="judges" className="space-y-3">
+            {resources.judges.length > 0 && (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+                {resources.judges.map(item => (
+                  <ResourceRow
+                    key={item.id}
+                    label={item.name}
+                    detail={describeCourtroom(resources, item.courtroomId)}
+                    onEdit={() => {
+                      setJudge({ name: item.name, courtroomId: item.courtroomId ?? '' });
+                      setJudgeId(item.id);
+                    }}
+                    onDelete={() => onDeleteJudge(item.id)}
+                  />
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleSaveJudge} className="space-y-2">
+              <Input
+                value={judge.name}
+                onChange={(e) => setJudge({ ...judge, name: e.target.value })}
+                placeholder="Name, e.g. Hon. Maria Lopez"
+                aria-label="Judge name"
+                className={inputClassName}
+              />
+              <Select
+                value={judge.courtroomId || NO_COURTROOM}
+                onValueChange={(value) => setJudge({ ...judge, courtroomId: value === NO_COURTROOM ? '' : value })}
+              >
+                <SelectTrigger aria-label="Usual courtroom" className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white border-gray-200">
+                  <SelectItem value={NO_COURTROOM} className="text-foreground hover:bg-accent">No usual courtroom</SelectItem>
+                  {resources.courtrooms.map(item => (
+                    <SelectItem key={item.id} value={item.id} className="text-foreground hover:bg-accent">
+                      {describeCourtroom(resources, item.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex justify-end space-x-2">
+                {judgeId && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setJudge({ name: '', courtroomId: '' });
+                      setJudgeId(undefined);
+                    }}
+                    className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+                  >
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  disabled={!judge.name.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  {judgeId ? 'Save judge' : <><Plus className="h-4 w-4 mr-2" />Add judge</>}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResourcesDialog;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { RestoreMode } from "@/lib/calendar-store";
+import { BackupError, readBackup } from "@/lib/storage";
+import { CalendarState } from "@/types/calendar";
+
+interface RestoreBackupDialogProps {
+  isOpen: boolean;
+  onRestore: (state: CalendarState, mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+const RestoreBackupDialog: React.FC<RestoreBackupDialogProps> = ({
+  isOpen,
+  onRestore,
+  onClose
+}) => {
+  const [fileText, setFileText] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const { backup, error, issues } = useMemo(() => {
+    if (!fileText) return { backup: null, error: null, issues: [] };
+    try {
+      return { backup: readBackup(fileText), error: null, issues: [] };
+    } catch (readError) {
+      return {
+        backup: null,
+        error: readError instanceof Error ? readError.message : String(readError),
+        issues: readError instanceof BackupError ? readError.issues : []
+      };
+    }
+  }, [fileText]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileText(await file.text());
+  };
+
+  const handleClose = () => {
+    setFileText('');
+    setMode('merge');
+    onClose();
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    onRestore(backup.snapshot, mode);
+    handleClose();
+  };
+
+  const counts = backup && {
+    cases: Object.keys(backup.snapshot.cases).length,
+    hearings: Object.keys(backup.snapshot.hearings).length,
+    tags: Object.keys(backup.snapshot.tags).length
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="bg-white border border-gray-200 text-gray-900 max-w-md shadow-xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900">
+            Restore Backup
+          </DialogTitle>
+          <DialogDescription>
+            Load cases, hearings, tags and settings from a JSON backup.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="backupFile" className="text-gray-700">Backup file</Label>
+            <Input
+              id="backupFile"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="bg-white border-gray-300 text-gray-900"
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3">
+              <p className="text-sm font-medium text-red-700">{error}</p>
+              {issues.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {issues.map((issue, index) => (
+                    <li key={index} className="text-xs text-red-600">{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {backup && counts && (
+            <>
+              <p className="text-sm text-gray-700">
+                Saved {format(backup.savedAt, 'MMM d, yyyy h:mm a')} (format v{backup.version}):{' '}
+                {counts.cases} cases, {counts.hearings} hearings, {counts.tags} tags.
+              </p>
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+                <label className="flex items-start space-x-2 text-sm text-gray-700">
+                  <RadioGroupItem value="merge" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium text-gray-900">Merge</span>
+                    <span className="block text-xs text-gray-500">
+                      Add to the current calendar. Cases match by case number, hearings by id.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start space-x-2 text-sm text-gray-700">
+                  <RadioGroupItem value="replace" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium text-gray-900">Replace</span>
+                    <span className="block text-xs text-gray-500">
+                      Discard the current calendar and settings and use the backup instead.
+                    </span>
+                  </span>
+                </label>
+              </RadioGroup>
+
+              {mode === 'replace' && (
+                <p className="flex items-center text-sm text-amber-700">
+                  <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+                  Anything not in the backup will be lost.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={handleClose}
+            className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!backup}
+            className={mode === 'replace'
+              ? 'bg-red-600 hover:bg-red-700 text-white'
+              : 'bg-blue-600 hover:bg-blue-700 text-white'}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {mode === 'replace' ? 'Replace calendar' : 'Merge backup'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreBackupDialog;
@@ -0,0 +1,173 @@
+// Proposes open court slots for a hearing, e.g. when one is vacated and has to be reset quickly
+import React, { useMemo, useState } from 'react';
+import { CalendarSearch, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { findOpenSlots, SESSION_LABELS, SLOT_SEARCH_DAYS } from "@/lib/availability";
+import { fromDateInputValue } from "@/lib/dates";
+import { formatEventTimes } from "@/lib/event-span";
+import { describePeople } from "@/lib/people";
+import { Session, Slot } from "@/lib/reschedule";
+import { describeCourtroom, findJudge, Resources } from "@/lib/resources";
+import { ClosureRecord, PersonRecord } from "@/types/calendar";
+import { Event } from './Calendar';
+
+const SESSIONS: Session[] = ['morning', 'afternoon'];
+
+interface SlotFinderProps {
+  // yyyy-MM-dd, as the date input holds it
+  earliestDate: string;
+  durationMinutes: number;
+  courtroomId?: string;
+  judgeId?: string;
+  personIds?: string[];
+  hearingId?: string;
+  existingEvents: Event[];
+  closures: ClosureRecord[];
+  resources: Resources;
+  people: PersonRecord[];
+  onPick: (slot: Slot) => void;
+  onClose: () => void;
+}
+
+const SlotFinder: React.FC<SlotFinderProps> = ({
+  earliestDate,
+  durationMinutes,
+  courtroomId,
+  judgeId,
+  personIds,
+  hearingId,
+  existingEvents,
+  closures,
+  resources,
+  people,
+  onPick,
+  onClose
+}) => {
+  const [earliest, setEarliest] = useState(earliestDate);
+  const [duration, setDuration] = useState(String(durationMinutes));
+  const [sessions, setSessions] = useState<Session[]>(SESSIONS);
+
+  const slots = useMemo(() => earliest && Number(duration) > 0
+    ? findOpenSlots({
+        durationMinutes: Number(duration),
+        earliest: fromDateInputValue(earliest),
+        sessions,
+        courtroomId,
+        judgeId,
+        personIds,
+        hearingId
+      }, existingEvents, closures)
+    : [], [earliest, duration, sessions, courtroomId, judgeId, personIds, hearingId, existingEvents, closures]);
+
+  // Keep at least one session selected, otherwise there is nothing to search
+  const toggleSession = (session: Session) => setSessions(prev =>
+    prev.includes(session)
+      ? prev.length > 1 ? prev.filter(value => value !== session) : prev
+      : SESSIONS.filter(value => value === session || prev.includes(value))
+  );
+
+  const keptFree = [
+    describeCourtroom(resources, courtroomId),
+    findJudge(resources, judgeId)?.name,
+    describePeople(people, personIds)
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center text-sm font-medium text-gray-700">
+          <CalendarSearch className="h-4 w-4 mr-2" />
+          Find a slot
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label="Close slot finder"
+          onClick={onClose}
+          className="text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="slotEarliest" className="text-gray-700">Earliest date</Label>
+          <Input
+            id="slotEarliest"
+            type="date"
+            value={earliest}
+            onChange={(e) => setEarliest(e.target.value)}
+            className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="slotDuration" className="text-gray-700">Duration (minutes)</Label>
+          <Input
+            id="slotDuration"
+            type="number"
+            min={15}
+            step={15}
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            className="bg-white border-gray-300 text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2" role="group" aria-label="Sessions">
+        {SESSIONS.map(session => (
+          <Button
+            key={session}
+            type="button"
+            variant="outline"
+            size="sm"
+            aria-pressed={sessions.includes(session)}
+            onClick={() => toggleSession(session)}
+            className={sessions.includes(session)
+              ? 'bg-blue-50 text-blue-700 border-blue-300 hover:bg-blue-100'
+              : 'border-gray-300 text-gray-600 hover:bg-accent'}
+          >
+            {SESSION_LABELS[session]}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {keptFree.length > 0
+          ? `Free for ${keptFree.join(' · ')}. Weekends and court closures are skipped.`
+          : 'No one is named to cover it, so any hearing at the time is avoided. Weekends and court closures are skipped.'}
+      </p>
+
+      {slots.length > 0 ? (
+        <ul className="space-y-1">
+          {slots.map(slot => (
+            <li key={`${slot.date.toDateString()}-${slot.startTime}`}>
+              <button
+                type="button"
+                onClick={() => onPick(slot)}
+                className="w-full flex items-center justify-between px-3 py-2 rounded-md border border-gray-200 bg-white
+                  text-sm text-gray-900 hover:bg-blue-50 hover:border-blue-300 transition-colors"
+              >
+                <span className="font-medium">
+                  {slot.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                  {' '}&middot; {formatEventTimes(slot)}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {SESSION_LABELS[slot.session]}{!slot.fitsSession && ', runs past the session'}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">No open slot in the next {SLOT_SEARCH_DAYS} days.</p>
+      )}
+    </div>
+  );
+};
+
+export default SlotFinder;
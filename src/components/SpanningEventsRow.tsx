@@ -0,0 +1,99 @@
+// All-day and multi-day hearings drawn as bars across the day columns they cover
+import React from 'react';
+import { AlertTriangle, Edit, Repeat, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { formatEventTimes, getEndDate, layoutSpanBars } from "@/lib/event-span";
+import { getStatusOpacity } from "@/lib/statuses";
+import { Event } from './Calendar';
+
+interface SpanningEventsRowProps {
+  days: Date[];
+  events: Event[];
+  onEditEvent: (event: Event) => void;
+  onDeleteEvent: (eventId: string) => void;
+  conflictIds?: Set<string>;
+  // Overrides the type color, e.g. with the covering person's color when calendars are overlaid
+  getEventColor?: (event: Event) => string | undefined;
+  className?: string;
+}
+
+const SpanningEventsRow: React.FC<SpanningEventsRowProps> = ({
+  days,
+  events,
+  onEditEvent,
+  onDeleteEvent,
+  conflictIds = new Set(),
+  getEventColor = () => undefined,
+  className = ''
+}) => {
+  const bars = layoutSpanBars(events, days);
+  if (bars.length === 0) return null;
+
+  const formatDay = (date: Date) => date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  return (
+    <div
+      className={`grid gap-y-1 ${className}`}
+      style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}
+    >
+      {bars.map(({ event, startIndex, endIndex, row, continuesBefore, continuesAfter }) => (
+        <div
+          key={event.id}
+          tabIndex={0}
+          aria-label={`${event.title}, ${formatDay(event.date)} to ${formatDay(getEndDate(event))}, ${formatEventTimes(event)}`}
+          className={`group flex items-center justify-between px-2 py-1 border
+            ${getEventColor(event) ?? (event.type === 'deadline' ? 'bg-amber-500 border-amber-400' : 'bg-indigo-500 border-indigo-400')}
+            focus:outline-none focus:ring-2 focus:ring-blue-300
+            ${continuesBefore ? 'rounded-l-none' : 'rounded-l-md'} ${continuesAfter ? 'rounded-r-none' : 'rounded-r-md'}
+            ${conflictIds.has(event.id) ? 'ring-2 ring-red-500' : ''}
+            ${getStatusOpacity(event.status)}`}
+          style={{ gridColumn: `${startIndex + 1} / ${endIndex + 2}`, gridRow: row + 1 }}
+          title={`${event.title} (${formatDay(event.date)} - ${formatDay(getEndDate(event))}, ${formatEventTimes(event)})`}
+        >
+          <div className="flex items-center space-x-1 min-w-0">
+            {continuesBefore && <span className="text-white text-xs" aria-hidden>‹</span>}
+            {conflictIds.has(event.id) && (
+              <AlertTriangle className="h-3 w-3 text-yellow-300 shrink-0" aria-label="Scheduling conflict" />
+            )}
+            {event.seriesId && (
+              <Repeat className="h-3 w-3 text-white shrink-0" aria-label="Recurring hearing" />
+            )}
+            <span className="font-medium text-white text-xs truncate">{event.title}</span>
+            <span className="text-white text-xs opacity-90 whitespace-nowrap">{formatEventTimes(event)}</span>
+          </div>
+
+          <div className="flex items-center">
+            {/* Actions */}
+            <div className="flex opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEditEvent(event);
+                }}
+                className="h-5 w-5 p-0 hover:bg-white/20 text-white"
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteEvent(event.id);
+                }}
+                className="h-5 w-5 p-0 hover:bg-red-500/20 text-white"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            {continuesAfter && <span className="text-white text-xs ml-1" aria-hidden>›</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SpanningEventsRow;
@@ -0,0 +1,318 @@
+// Hour-proportional timeline: hearings are positioned and sized by their start and end times
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Edit, Repeat, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { formatTime12Hour, getHourRange, layoutDayEvents, minutesToTime, timeToMinutes } from "@/lib/timeline";
+import { moveToSlot, resizeTo, Slot, snapMinutes } from "@/lib/reschedule";
+import { isSpanning } from "@/lib/event-span";
+import { getStatusOpacity } from "@/lib/statuses";
+import { findClosure } from "@/lib/closures";
+import { ClosureRecord } from "@/types/calendar";
+import SpanningEventsRow from './SpanningEventsRow';
+import { Event } from './Calendar';
+
+interface TimelineGridProps {
+  days: Date[];
+  events: Event[];
+  onDayClick?: (date: Date) => void;
+  onEditEvent: (event: Event) => void;
+  onDeleteEvent: (eventId: string) => void;
+  onRescheduleEvent?: (event: Event, slot: Slot) => void;
+  onEventKeyDown?: (e: React.KeyboardEvent, event: Event) => void;
+  conflictIds?: Set<string>;
+  closures?: ClosureRecord[];
+  getEventColor?: (event: Event) => string | undefined;
+}
+
+const HOUR_HEIGHT = 56;
+
+const TimelineGrid: React.FC<TimelineGridProps> = ({
+  days,
+  events,
+  onDayClick,
+  onEditEvent,
+  onDeleteEvent,
+  onRescheduleEvent,
+  onEventKeyDown,
+  conflictIds = new Set(),
+  closures = [],
+  getEventColor = () => undefined
+}) => {
+  const [now, setNow] = useState(new Date());
+  // Where in the card the drag started, so the card lands where it was dropped rather than at its top edge
+  const grabOffset = useRef(0);
+  const [dragPreview, setDragPreview] = useState<{ day: string; start: number; end: number } | null>(null);
+  const [resizing, setResizing] = useState<{ eventId: string; end: number } | null>(null);
+
+  // Keep the "now" line moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // All-day and multi-day hearings sit in the row under the day headers rather than on the hour grid
+  const getEventsForDay = (date: Date) => {
+    return events.filter(event =>
+      !isSpanning(event) && event.date.toDateString() === date.toDateString()
+    );
+  };
+
+  const visibleEvents = days.flatMap(getEventsForDay);
+  const { startHour, endHour } = getHourRange(visibleEvents);
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+  const gridHeight = hours.length * HOUR_HEIGHT;
+
+  const minutesToOffset = (minutes: number) => ((minutes - startHour * 60) / 60) * HOUR_HEIGHT;
+  const offsetToMinutes = (offset: number) => startHour * 60 + (offset / HOUR_HEIGHT) * 60;
+
+  const getDropSlot = (e: React.DragEvent, day: Date, event: Event) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return moveToSlot(event, day, offsetToMinutes(e.clientY - rect.top - grabOffset.current));
+  };
+
+  const draggedEvent = (e: React.DragEvent) =>
+    events.find(item => item.id === e.dataTransfer.getData('text/plain'));
+
+  // Resizing follows the pointer on the window so it keeps working when the cursor leaves the card
+  const startResize = (e: React.PointerEvent, event: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const originY = e.clientY;
+    const originEnd = timeToMinutes(event.endTime);
+
+    const onMove = (moveEvent: PointerEvent) => {
+      const slot = resizeTo(event, originEnd + ((moveEvent.clientY - originY) / HOUR_HEIGHT) * 60);
+      setResizing({ eventId: event.id, end: timeToMinutes(slot.endTime) });
+    };
+    const onUp = (upEvent: PointerEvent) => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      setResizing(null);
+      const slot = resizeTo(event, originEnd + ((upEvent.clientY - originY) / HOUR_HEIGHT) * 60);
+      if (slot.endTime !== event.endTime) {
+        onRescheduleEvent?.(event, slot);
+      }
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+  };
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const showNowLine = nowMinutes >= startHour * 60 && nowMinutes <= endHour * 60;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      {/* Day Headers */}
+      <div className="flex border-b border-gray-200 bg-gray-50">
+        <div className="w-16 shrink-0" />
+        {days.map(day => {
+          const closure = findClosure(closures, day);
+
+          return (
+            <button
+              key={day.toISOString()}
+              type="button"
+              onClick={() => onDayClick?.(day)}
+              className={`flex-1 px-2 py-3 text-center border-l border-gray-200 hover:bg-accent transition-colors ${
+                closure ? 'bg-gray-100' : ''
+              }`}
+            >
+              <div className="text-xs text-gray-500 uppercase font-medium">
+                {day.toLocaleDateString('en-US', { weekday: 'short' })}
+              </div>
+              <div className={`text-lg font-semibold mt-1 ${
+                day.toDateString() === now.toDateString() ? 'text-blue-600' : 'text-gray-900'
+              }`}>
+                {day.getDate()}
+              </div>
+              {closure && <div className="text-xs text-gray-500 truncate">Closed: {closure.name}</div>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex">
+        <div className="w-16 shrink-0" />
+        <SpanningEventsRow
+          days={days}
+          events={events}
+          onEditEvent={onEditEvent}
+          onDeleteEvent={onDeleteEvent}
+          conflictIds={conflictIds}
+          getEventColor={getEventColor}
+          className="flex-1 p-1 border-b border-gray-200"
+        />
+      </div>
+
+      <div className="flex">
+        {/* Hour Axis */}
+        <div className="w-16 shrink-0 relative" style={{ height: gridHeight }}>
+          {hours.map(hour => (
+            <div
+              key={hour}
+              className="absolute right-2 -translate-y-1/2 text-xs text-gray-400"
+              style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+            >
+              {hour === startHour ? '' : formatTime12Hour(`${hour}:00`)}
+            </div>
+          ))}
+        </div>
+
+        {/* Day Columns */}
+        {days.map(day => {
+          const isToday = day.toDateString() === now.toDateString();
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={`flex-1 relative border-l border-gray-200 ${findClosure(closures, day) ? 'bg-gray-100' : ''}`}
+              style={{ height: gridHeight }}
+              onDragOver={(e) => {
+                if (!onRescheduleEvent || !e.dataTransfer.types.includes('text/plain')) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                // The dragged id can't be read during dragover, so preview with the grab position only
+                const rect = e.currentTarget.getBoundingClientRect();
+                const start = snapMinutes(offsetToMinutes(e.clientY - rect.top - grabOffset.current));
+                setDragPreview(preview => preview && {
+                  day: day.toDateString(),
+                  start,
+                  end: start + (preview.end - preview.start)
+                });
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragPreview(null);
+                const event = draggedEvent(e);
+                if (event && onRescheduleEvent) {
+                  onRescheduleEvent(event, getDropSlot(e, day, event));
+                }
+              }}
+            >
+              {hours.map(hour => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-gray-100"
+                  style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+                />
+              ))}
+
+              {dragPreview && dragPreview.day === day.toDateString() && (
+                <div
+                  className="absolute inset-x-1 rounded-md border-2 border-dashed border-blue-400 bg-blue-50/60 pointer-events-none"
+                  style={{
+                    top: minutesToOffset(dragPreview.start),
+                    height: minutesToOffset(dragPreview.end) - minutesToOffset(dragPreview.start)
+                  }}
+                >
+                  <span className="text-xs text-blue-700 px-1">{formatTime12Hour(minutesToTime(dragPreview.start))}</span>
+                </div>
+              )}
+
+              {layoutDayEvents(getEventsForDay(day)).map(({ event, start, end: layoutEnd, column, columns }) => {
+                const end = resizing?.eventId === event.id ? resizing.end : layoutEnd;
+
+                return (
+                  <div
+                    key={event.id}
+                    draggable={!!onRescheduleEvent}
+                    tabIndex={0}
+                    aria-label={`${event.title}, ${formatTime12Hour(event.startTime)} to ${formatTime12Hour(event.endTime)}. Drag or press Alt with arrow keys to reschedule, Alt+Shift with up or down to change the end time.`}
+                    aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown Alt+Shift+ArrowUp Alt+Shift+ArrowDown"
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', event.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      grabOffset.current = e.clientY - e.currentTarget.getBoundingClientRect().top;
+                      setDragPreview({ day: day.toDateString(), start, end });
+                    }}
+                    onDragEnd={() => setDragPreview(null)}
+                    onKeyDown={(e) => onEventKeyDown?.(e, event)}
+                    className={`absolute p-1.5 rounded-md border overflow-hidden
+                      ${getEventColor(event) ?? (event.type === 'deadline' ? 'bg-amber-500 border-amber-400' : 'bg-blue-500 border-blue-400')}
+                      group cursor-grab active:cursor-grabbing hover:shadow-md hover:z-10 transition-shadow duration-200
+                      focus:outline-none focus:ring-2 focus:ring-blue-300 focus:z-10
+                      ${conflictIds.has(event.id) ? 'ring-2 ring-red-500' : ''}
+                      ${getStatusOpacity(event.status)}`}
+                    style={{
+                      top: minutesToOffset(start),
+                      height: Math.max(minutesToOffset(end) - minutesToOffset(start), 18),
+                      left: `calc(${(column / columns) * 100}% + 2px)`,
+                      width: `calc(${100 / columns}% - 4px)`
+                    }}
+                    title={`${event.title} (${formatTime12Hour(event.startTime)} - ${formatTime12Hour(event.endTime)})`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-1">
+                          {conflictIds.has(event.id) && (
+                            <AlertTriangle className="h-3 w-3 text-yellow-300 shrink-0" aria-label="Scheduling conflict" />
+                          )}
+                          {event.seriesId && (
+                            <Repeat className="h-3 w-3 text-white shrink-0" aria-label="Recurring hearing" />
+                          )}
+                          <div className="font-medium text-white text-xs truncate">{event.title}</div>
+                        </div>
+                        <div className="text-white text-xs opacity-90 truncate">
+                          {formatTime12Hour(event.startTime)} - {formatTime12Hour(event.endTime)}
+                        </div>
+                      </div>
+
+                      {/* Actions */}
+                      <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onEditEvent(event);
+                          }}
+                          className="h-5 w-5 p-0 hover:bg-white/20 text-white"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDeleteEvent(event.id);
+                          }}
+                          className="h-5 w-5 p-0 hover:bg-red-500/20 text-white"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Resize handle: drag to change the end time */}
+                    {onRescheduleEvent && (
+                      <div
+                        onPointerDown={(e) => startResize(e, event)}
+                        onDragStart={(e) => e.preventDefault()}
+                        className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize opacity-0 group-hover:opacity-100 bg-white/30"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {isToday && showNowLine && (
+                <div
+                  className="absolute inset-x-0 z-20 pointer-events-none"
+                  style={{ top: minutesToOffset(nowMinutes) }}
+                >
+                  <div className="relative border-t-2 border-red-500">
+                    <div className="absolute -left-1 -top-[5px] w-2 h-2 rounded-full bg-red-500" />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineGrid;
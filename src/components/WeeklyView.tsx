@@ -1,9 +1,19 @@
 
 // Weekly View Component with Timeline
-import React from 'react';
-import { ChevronLeft, ChevronRight, Edit, Trash2, Clock, Calendar } from 'lucide-react';
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Edit, Trash2, Clock, Calendar, Rows3, GanttChart, AlertTriangle, Repeat, Users } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { formatTime12Hour, timeToMinutes } from "@/lib/timeline";
+import { getSession, moveToSession, moveToSlot, resizeTo, Session, shiftWeekday, Slot, SNAP_MINUTES } from "@/lib/reschedule";
+import { isSpanning } from "@/lib/event-span";
+import { getStatusLabel, getStatusOpacity } from "@/lib/statuses";
+import { findClosure } from "@/lib/closures";
+import { describeHearingResources, emptyResources, Resources } from "@/lib/resources";
+import { countWeeklyWorkload, getPersonColorClasses, isCoveredBy } from "@/lib/people";
+import { ClosureRecord, PersonRecord } from "@/types/calendar";
+import SpanningEventsRow from './SpanningEventsRow';
+import TimelineGrid from './TimelineGrid';
 import { Event } from './Calendar';
 
 interface WeeklyViewProps {
@@ -12,6 +22,11 @@ interface WeeklyViewProps {
   onWeekChange: (date: Date) => void;
   onEditEvent: (event: Event) => void;
   onDeleteEvent: (eventId: string) => void;
+  onRescheduleEvent: (event: Event, slot: Slot) => void;
+  conflictIds?: Set<string>;
+  closures?: ClosureRecord[];
+  resources?: Resources;
+  people?: PersonRecord[];
 }
 
 const WeeklyView: React.FC<WeeklyViewProps> = ({
@@ -19,15 +34,20 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({
   currentWeek,
   onWeekChange,
   onEditEvent,
-  onDeleteEvent
+  onDeleteEvent,
+  onRescheduleEvent,
+  conflictIds = new Set(),
+  closures = [],
+  resources = emptyResources,
+  people = []
 }) => {
-  const formatTime12Hour = (time24: string) => {
-    const [hours, minutes] = time24.split(':');
-    const hour24 = parseInt(hours, 10);
-    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
-    const ampm = hour24 >= 12 ? 'PM' : 'AM';
-    return `${hour12}:${minutes} ${ampm}`;
-  };
+  const [layout, setLayout] = useState<'sessions' | 'timeline'>('sessions');
+  // In timeline mode a single day can be focused by clicking its header
+  const [focusedDay, setFocusedDay] = useState<Date | null>(null);
+  // Session currently hovered while dragging a card, keyed by day and session
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // People whose calendars are overlaid; none shows everyone's hearings in the usual type colors
+  const [overlayIds, setOverlayIds] = useState<string[]>([]);
 
   const getWeekDays = (date: Date) => {
     const week = [];
@@ -52,12 +72,33 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({
   const navigateWeek = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentWeek);
     newDate.setDate(currentWeek.getDate() + (direction === 'next' ? 7 : -7));
+    setFocusedDay(null);
     onWeekChange(newDate);
   };
 
+  const toggleFocusedDay = (day: Date) => {
+    setFocusedDay(focusedDay && focusedDay.toDateString() === day.toDateString() ? null : day);
+  };
+
+  const visibleEvents = overlayIds.length > 0
+    ? events.filter(event => overlayIds.some(personId => isCoveredBy(event, personId)))
+    : events;
+  const workload = countWeeklyWorkload(events, people, currentWeek);
+
+  // A hearing covered by several overlaid people takes the color of the first one picked
+  const getOverlayColor = (event: Event) => {
+    const personId = overlayIds.find(id => isCoveredBy(event, id));
+    const person = people.find(item => item.id === personId);
+    return person ? getPersonColorClasses(person.color).card : undefined;
+  };
+
+  const toggleOverlay = (personId: string) =>
+    setOverlayIds(ids => (ids.includes(personId) ? ids.filter(id => id !== personId) : [...ids, personId]));
+
+  // All-day and multi-day hearings are drawn as bars above the columns instead
   const getEventsForDay = (date: Date) => {
-    return events.filter(event => 
-      event.date.toDateString() === date.toDateString()
+    return visibleEvents.filter(event => 
+      !isSpanning(event) && event.date.toDateString() === date.toDateString()
     );
   };
 
@@ -78,19 +119,162 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({
   const getEventTypeColor = (type: Event['type']) => {
     switch (type) {
       case 'hearing': return 'bg-blue-500 border-blue-400';
+      case 'deadline': return 'bg-amber-500 border-amber-400';
       default: return 'bg-gray-500 border-gray-400';
     }
   };
 
-  const getStatusOpacity = (status: Event['status']) => {
-    switch (status) {
-      case 'new': return 'opacity-100';
-      case 'rescheduled': return 'opacity-75';
-      case 'cancelled': return 'opacity-50 line-through';
-      default: return 'opacity-100';
+  // Keyboard alternative to dragging: Alt+Left/Right moves a day, Alt+Up/Down moves between sessions
+  const handleCardKeyDown = (e: React.KeyboardEvent, event: Event) => {
+    if (!e.altKey) return;
+
+    const session = getSession(event);
+    let slot: Slot | null = null;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      slot = moveToSession(event, shiftWeekday(event.date, e.key === 'ArrowRight' ? 1 : -1), session);
+    } else if (e.key === 'ArrowUp' && session === 'afternoon') {
+      slot = moveToSession(event, event.date, 'morning');
+    } else if (e.key === 'ArrowDown' && session === 'morning') {
+      slot = moveToSession(event, event.date, 'afternoon');
+    }
+
+    if (slot) {
+      e.preventDefault();
+      onRescheduleEvent(event, slot);
+    }
+  };
+
+  // Timeline keyboard moves: Alt+Up/Down shifts by 15 minutes, Alt+Shift+Up/Down changes the end time
+  const handleTimelineKeyDown = (e: React.KeyboardEvent, event: Event) => {
+    if (!e.altKey) return;
+
+    const start = timeToMinutes(event.startTime);
+    const end = timeToMinutes(event.endTime);
+    const step = e.key === 'ArrowDown' ? SNAP_MINUTES : -SNAP_MINUTES;
+    let slot: Slot | null = null;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      slot = moveToSlot(event, shiftWeekday(event.date, e.key === 'ArrowRight' ? 1 : -1), start);
+    } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && e.shiftKey) {
+      slot = resizeTo(event, end + step);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      slot = moveToSlot(event, event.date, start + step);
+    }
+
+    if (slot) {
+      e.preventDefault();
+      onRescheduleEvent(event, slot);
     }
   };
 
+  const getSessionDropProps = (day: Date, session: Session) => {
+    const key = `${day.toDateString()}-${session}`;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('text/plain')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(key);
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setDropTarget(current => (current === key ? null : current));
+        }
+      },
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const event = events.find(item => item.id === e.dataTransfer.getData('text/plain'));
+        if (event) {
+          onRescheduleEvent(event, moveToSession(event, day, session));
+        }
+      },
+      className: `rounded-md transition-colors ${dropTarget === key ? 'bg-blue-50 ring-2 ring-blue-300' : ''}`
+    };
+  };
+
+  // Courtroom and judge under the card's time, when the hearing has them
+  const renderResourceLines = (event: Event) => {
+    const { courtroom, judge } = describeHearingResources(resources, event);
+    return (
+      <>
+        {courtroom && (
+          <div className="text-white text-xs mt-1 opacity-90 truncate" title={courtroom}>{courtroom}</div>
+        )}
+        {judge && (
+          <div className="text-white text-xs opacity-90 truncate" title={judge}>{judge}</div>
+        )}
+      </>
+    );
+  };
+
+  const renderEventCard = (event: Event) => (
+    <div
+      key={event.id}
+      draggable
+      tabIndex={0}
+      aria-label={`${event.title}, ${formatTime12Hour(event.startTime)} to ${formatTime12Hour(event.endTime)}. Drag or press Alt with arrow keys to reschedule.`}
+      aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown"
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', event.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragEnd={() => setDropTarget(null)}
+      onKeyDown={(e) => handleCardKeyDown(e, event)}
+      className={`p-3 rounded-md ${getOverlayColor(event) ?? getEventTypeColor(event.type)} 
+        group cursor-grab active:cursor-grabbing hover:shadow-md transition-all duration-200 
+        focus:outline-none focus:ring-2 focus:ring-blue-300 focus:ring-offset-1
+        ${conflictIds.has(event.id) ? 'ring-2 ring-red-500 ring-offset-1' : ''}
+        ${getStatusOpacity(event.status)}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-1">
+            {conflictIds.has(event.id) && (
+              <AlertTriangle className="h-3 w-3 text-yellow-300 shrink-0" aria-label="Scheduling conflict" />
+            )}
+            {event.seriesId && (
+              <Repeat className="h-3 w-3 text-white shrink-0" aria-label="Recurring hearing" />
+            )}
+            <div className="font-medium text-white text-sm truncate">{event.title}</div>
+          </div>
+          <div className="text-white text-xs mt-1 opacity-90">
+            {formatTime12Hour(event.startTime)} - {formatTime12Hour(event.endTime)}
+          </div>
+          {renderResourceLines(event)}
+          <div className="text-white text-xs opacity-75 mt-1">
+            {getStatusLabel(event.status)}
+          </div>
+        </div>
+      
+        {/* Actions */}
+        <div className="flex space-x-1 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-opacity">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEditEvent(event);
+            }}
+            className="h-6 w-6 p-0 hover:bg-white/20 text-white"
+          >
+            <Edit className="h-3 w-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDeleteEvent(event.id);
+            }}
+            className="h-6 w-6 p-0 hover:bg-red-500/20 text-white"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="h-full flex flex-col bg-white">
       {/* Week Navigation */}
@@ -104,9 +288,37 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({
           <ChevronLeft className="h-4 w-4" />
         </Button>
         
-        <h2 className="text-xl font-semibold text-gray-900">
-          {weekDays[0].toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
-        </h2>
+        <div className="flex items-center space-x-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {focusedDay
+              ? focusedDay.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+              : weekDays[0].toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </h2>
+
+          <div className="flex items-center space-x-1 bg-gray-50 rounded-lg p-1 border border-gray-200">
+            {([
+              { value: 'sessions', label: 'Sessions', icon: Rows3 },
+              { value: 'timeline', label: 'Timeline', icon: GanttChart }
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={layout === value ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => {
+                  setLayout(value);
+                  setFocusedDay(null);
+                }}
+                className={`h-7 text-xs ${layout === value
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-sm'
+                  : 'text-muted-foreground hover:text-accent-foreground hover:bg-accent'
+                }`}
+              >
+                <Icon className="h-3 w-3 mr-1" />
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
         
         <Button
           variant="ghost"
@@ -118,173 +330,151 @@ const WeeklyView: React.FC<WeeklyViewProps> = ({
         </Button>
       </div>
 
+      {/* People: overlay toggles and this week's workload */}
+      {people.length > 0 && (
+        <div className="flex items-center flex-wrap gap-2 px-6 py-2 border-b border-gray-200 bg-gray-50">
+          <Users className="h-4 w-4 text-gray-500" />
+          <span className="text-sm text-gray-600">Overlay:</span>
+          {people.map(person => {
+            const isActive = overlayIds.includes(person.id);
+            return (
+              <button
+                key={person.id}
+                type="button"
+                aria-pressed={isActive}
+                onClick={() => toggleOverlay(person.id)}
+                title={`${workload[person.id]} hearing${workload[person.id] !== 1 ? 's' : ''} this week`}
+                className={`flex items-center px-2 py-1 rounded-md text-xs font-medium border transition-colors ${
+                  isActive ? 'bg-white text-gray-900 border-gray-400 shadow-sm' : 'text-gray-600 border-transparent hover:bg-accent'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full mr-1.5 ${getPersonColorClasses(person.color).swatch}`} />
+                {person.name}
+                <span className="ml-1.5 px-1.5 rounded-full bg-gray-200 text-gray-700">{workload[person.id]}</span>
+              </button>
+            );
+          })}
+          {overlayIds.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOverlayIds([])}
+              className="h-7 text-xs text-muted-foreground hover:text-accent-foreground hover:bg-accent"
+            >
+              Show everyone
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Weekly Timeline */}
       <div className="flex-1 overflow-auto p-4">
-        <div className="grid grid-cols-5 gap-4">
-          {weekDays.map((day, dayIndex) => {
-            const dayEvents = getEventsForDay(day);
-            const morningEvents = getMorningEvents(dayEvents);
-            const afternoonEvents = getAfternoonEvents(dayEvents);
+        {layout === 'timeline' ? (
+          <TimelineGrid
+            days={focusedDay ? [focusedDay] : weekDays}
+            events={visibleEvents}
+            onDayClick={toggleFocusedDay}
+            onEditEvent={onEditEvent}
+            onDeleteEvent={onDeleteEvent}
+            onRescheduleEvent={onRescheduleEvent}
+            onEventKeyDown={handleTimelineKeyDown}
+            conflictIds={conflictIds}
+            closures={closures}
+            getEventColor={getOverlayColor}
+          />
+        ) : (
+          <>
+            <SpanningEventsRow
+              days={weekDays}
+              events={visibleEvents}
+              onEditEvent={onEditEvent}
+              onDeleteEvent={onDeleteEvent}
+              conflictIds={conflictIds}
+              getEventColor={getOverlayColor}
+              className="gap-x-4 mb-4"
+            />
+            <div className="grid grid-cols-5 gap-4">
+              {weekDays.map((day, dayIndex) => {
+                const dayEvents = getEventsForDay(day);
+                const morningEvents = getMorningEvents(dayEvents);
+                const afternoonEvents = getAfternoonEvents(dayEvents);
+                const closure = findClosure(closures, day);
             
-            return (
-              <div key={day.toISOString()} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-                {/* Day Header */}
-                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200">
-                  <div className="text-center">
-                    <div className="text-xs text-gray-500 uppercase font-medium">{dayNames[dayIndex]}</div>
-                    <div className={`text-lg font-semibold mt-1 ${
-                      day.toDateString() === new Date().toDateString() 
-                        ? 'text-blue-600' 
-                        : 'text-gray-900'
-                    }`}>
-                      {day.getDate()}
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={`${closure ? 'bg-gray-100' : 'bg-white'} border border-gray-200 rounded-lg overflow-hidden`}
+                  >
+                    {/* Day Header */}
+                    <div className={`px-4 py-3 ${closure ? 'bg-gray-200' : 'bg-gray-50'} border-b border-gray-200`}>
+                      <div className="text-center">
+                        <div className="text-xs text-gray-500 uppercase font-medium">{dayNames[dayIndex]}</div>
+                        <div className={`text-lg font-semibold mt-1 ${
+                          day.toDateString() === new Date().toDateString() 
+                            ? 'text-blue-600' 
+                            : 'text-gray-900'
+                        }`}>
+                          {day.getDate()}
+                        </div>
+                        {closure && <div className="text-xs text-gray-500 truncate mt-1">Closed: {closure.name}</div>}
+                      </div>
                     </div>
-                  </div>
-                </div>
 
-                <div className="p-3 space-y-4">
-                  {/* Morning Hearings */}
-                  <Collapsible defaultOpen={morningEvents.length > 0}>
-                     <CollapsibleTrigger className="flex items-center justify-between w-full p-2 rounded-md hover:bg-accent transition-colors">
-                      <div className="flex items-center space-x-2">
-                        <Clock className="h-4 w-4 text-amber-500" />
-                        <span className="text-sm font-medium text-gray-700">Morning</span>
-                        {morningEvents.length > 0 && (
-                          <span className="bg-amber-100 text-amber-800 text-xs px-2 py-1 rounded-full">
-                            {morningEvents.length}
-                          </span>
-                        )}
-                      </div>
-                    </CollapsibleTrigger>
-                    <CollapsibleContent className="pt-2">
-                      {morningEvents.length === 0 ? (
-                        <div className="text-xs text-gray-400 px-2 py-3">No morning hearings</div>
-                      ) : (
-                        <div className="space-y-2">
-                          {morningEvents.map(event => (
-                            <div
-                              key={event.id}
-                              className={`p-3 rounded-md ${getEventTypeColor(event.type)} 
-                                group cursor-pointer hover:shadow-md transition-all duration-200 
-                                ${getStatusOpacity(event.status)}`}
-                            >
-                              <div className="flex items-start justify-between">
-                                <div className="flex-1 min-w-0">
-                                  <div className="font-medium text-white text-sm truncate">{event.title}</div>
-                                  <div className="text-white text-xs mt-1 opacity-90">
-                                    {formatTime12Hour(event.startTime)} - {formatTime12Hour(event.endTime)}
-                                  </div>
-                                  <div className="text-white text-xs opacity-75 capitalize mt-1">
-                                    {event.status}
-                                  </div>
-                                </div>
-                                
-                                {/* Actions */}
-                                <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      onEditEvent(event);
-                                    }}
-                                    className="h-6 w-6 p-0 hover:bg-white/20 text-white"
-                                  >
-                                    <Edit className="h-3 w-3" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      onDeleteEvent(event.id);
-                                    }}
-                                    className="h-6 w-6 p-0 hover:bg-red-500/20 text-white"
-                                  >
-                                    <Trash2 className="h-3 w-3" />
-                                  </Button>
-                                </div>
-                              </div>
+                    <div className="p-3 space-y-4">
+                      {/* Morning Hearings */}
+                      <Collapsible defaultOpen={morningEvents.length > 0} {...getSessionDropProps(day, 'morning')}>
+                         <CollapsibleTrigger className="flex items-center justify-between w-full p-2 rounded-md hover:bg-accent transition-colors">
+                          <div className="flex items-center space-x-2">
+                            <Clock className="h-4 w-4 text-amber-500" />
+                            <span className="text-sm font-medium text-gray-700">Morning</span>
+                            {morningEvents.length > 0 && (
+                              <span className="bg-amber-100 text-amber-800 text-xs px-2 py-1 rounded-full">
+                                {morningEvents.length}
+                              </span>
+                            )}
+                          </div>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="pt-2">
+                          {morningEvents.length === 0 ? (
+                            <div className="text-xs text-gray-400 px-2 py-3">No morning hearings</div>
+                          ) : (
+                            <div className="space-y-2">
+                              {morningEvents.map(renderEventCard)}
                             </div>
-                          ))}
-                        </div>
-                      )}
-                    </CollapsibleContent>
-                  </Collapsible>
+                          )}
+                        </CollapsibleContent>
+                      </Collapsible>
 
-                  {/* Afternoon Hearings */}
-                  <Collapsible defaultOpen={afternoonEvents.length > 0}>
-                    <CollapsibleTrigger className="flex items-center justify-between w-full p-2 rounded-md hover:bg-accent transition-colors">
-                      <div className="flex items-center space-x-2">
-                        <Calendar className="h-4 w-4 text-blue-500" />
-                        <span className="text-sm font-medium text-gray-700">Afternoon</span>
-                        {afternoonEvents.length > 0 && (
-                          <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                            {afternoonEvents.length}
-                          </span>
-                        )}
-                      </div>
-                    </CollapsibleTrigger>
-                    <CollapsibleContent className="pt-2">
-                      {afternoonEvents.length === 0 ? (
-                        <div className="text-xs text-gray-400 px-2 py-3">No afternoon hearings</div>
-                      ) : (
-                        <div className="space-y-2">
-                          {afternoonEvents.map(event => (
-                            <div
-                              key={event.id}
-                              className={`p-3 rounded-md ${getEventTypeColor(event.type)} 
-                                group cursor-pointer hover:shadow-md transition-all duration-200 
-                                ${getStatusOpacity(event.status)}`}
-                            >
-                              <div className="flex items-start justify-between">
-                                <div className="flex-1 min-w-0">
-                                  <div className="font-medium text-white text-sm truncate">{event.title}</div>
-                                  <div className="text-white text-xs mt-1 opacity-90">
-                                    {formatTime12Hour(event.startTime)} - {formatTime12Hour(event.endTime)}
-                                  </div>
-                                  <div className="text-white text-xs opacity-75 capitalize mt-1">
-                                    {event.status}
-                                  </div>
-                                </div>
-                                
-                                {/* Actions */}
-                                <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      onEditEvent(event);
-                                    }}
-                                    className="h-6 w-6 p-0 hover:bg-white/20 text-white"
-                                  >
-                                    <Edit className="h-3 w-3" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="ghost"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      onDeleteEvent(event.id);
-                                    }}
-                                    className="h-6 w-6 p-0 hover:bg-red-500/20 text-white"
-                                  >
-                                    <Trash2 className="h-3 w-3" />
-                                  </Button>
-                                </div>
-                              </div>
+                      {/* Afternoon Hearings */}
+                      <Collapsible defaultOpen={afternoonEvents.length > 0} {...getSessionDropProps(day, 'afternoon')}>
+                        <CollapsibleTrigger className="flex items-center justify-between w-full p-2 rounded-md hover:bg-accent transition-colors">
+                          <div className="flex items-center space-x-2">
+                            <Calendar className="h-4 w-4 text-blue-500" />
+                            <span className="text-sm font-medium text-gray-700">Afternoon</span>
+                            {afternoonEvents.length > 0 && (
+                              <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                                {afternoonEvents.length}
+                              </span>
+                            )}
+                          </div>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="pt-2">
+                          {afternoonEvents.length === 0 ? (
+                            <div className="text-xs text-gray-400 px-2 py-3">No afternoon hearings</div>
+                          ) : (
+                            <div className="space-y-2">
+                              {afternoonEvents.map(renderEventCard)}
                             </div>
-                          ))}
-                        </div>
-                      )}
-                    </CollapsibleContent>
-                  </Collapsible>
-                </div>
-              </div>
-            );
-          })}
-        </div>
+                          )}
+                        </CollapsibleContent>
+                      </Collapsible>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,160 @@
+import * as React from "react"
+
+import { useToast } from "@/hooks/use-toast"
+import {
+  calendarReducer,
+  CaseInput,
+  emptyCalendarState,
+  HearingInput,
+  normalizeCases,
+  RestoreMode,
+  selectCases,
+  selectClosureCalendars,
+  selectClosures,
+  selectEvents,
+  selectPeople,
+  selectResources,
+  selectSettings,
+  selectTags,
+} from "@/lib/calendar-store"
+import { OutcomeInput } from "@/lib/outcomes"
+import { ClosureFile, ClosureInput } from "@/lib/closures"
+import { CourthouseInput, CourtroomInput, JudgeInput } from "@/lib/resources"
+import { PersonInput } from "@/lib/people"
+import { RecurrenceScope } from "@/lib/recurrence"
+import { createSampleCases } from "@/lib/sample-data"
+import { createDefaultAdapter, loadSnapshot, saveSnapshot, StorageAdapter } from "@/lib/storage"
+import { CalendarSettings, CalendarState, Case, CaseStatus, HearingRecord } from "@/types/calendar"
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+// Owns the normalized calendar state: loads it from storage on mount and writes every change through
+export function useCalendarStore(adapter?: StorageAdapter) {
+  const storage = React.useRef(adapter ?? createDefaultAdapter()).current
+  const [state, dispatch] = React.useReducer(calendarReducer, emptyCalendarState)
+  const [isLoaded, setIsLoaded] = React.useState(false)
+  const { toast } = useToast()
+
+  // Load the stored docket, seeding it with the sample cases the first time
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const snapshot = await loadSnapshot(storage)
+        if (!cancelled) {
+          dispatch({ type: "LOAD", state: snapshot ?? normalizeCases(createSampleCases()) })
+          setIsLoaded(true)
+        }
+      } catch (error) {
+        toast({
+          title: "Couldn't load saved hearings",
+          description: describeError(error),
+          variant: "destructive",
+        })
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [storage, toast])
+
+  // Write-through; skipped until loaded so a failed load never overwrites stored data
+  React.useEffect(() => {
+    if (!isLoaded) return
+
+    saveSnapshot(storage, state).catch((error) => {
+      toast({
+        title: "Couldn't save changes",
+        description: describeError(error),
+        variant: "destructive",
+      })
+    })
+  }, [storage, state, isLoaded, toast])
+
+  const cases = React.useMemo(() => selectCases(state), [state])
+  const events = React.useMemo(() => selectEvents(state), [state])
+  const tags = React.useMemo(() => selectTags(state), [state])
+  const settings = React.useMemo(() => selectSettings(state), [state])
+  const closureCalendars = React.useMemo(() => selectClosureCalendars(state), [state])
+  const closures = React.useMemo(() => selectClosures(state), [state])
+  const resources = React.useMemo(() => selectResources(state), [state])
+  const people = React.useMemo(() => selectPeople(state), [state])
+
+  const actions = React.useMemo(
+    () => ({
+      restore: (restored: CalendarState, mode: RestoreMode) =>
+        dispatch({ type: "RESTORE", state: restored, mode }),
+      updateSettings: (changes: Partial<CalendarSettings>) =>
+        dispatch({ type: "UPDATE_SETTINGS", settings: changes }),
+      saveHearing: (input: HearingInput, hearingId?: string) =>
+        dispatch({ type: "SAVE_HEARING", input, hearingId }),
+      importHearings: (hearings: { hearingId: string; input: HearingInput }[]) =>
+        dispatch({ type: "IMPORT_HEARINGS", hearings }),
+      importCases: (cases: Case[]) =>
+        dispatch({ type: "IMPORT_CASES", cases }),
+      saveCase: (input: CaseInput, caseId?: string) =>
+        dispatch({ type: "SAVE_CASE", input, caseId }),
+      setCaseStatus: (caseId: string, status: CaseStatus) =>
+        dispatch({ type: "SET_CASE_STATUS", caseId, status }),
+      deleteHearing: (hearingId: string) =>
+        dispatch({ type: "DELETE_HEARING", hearingId }),
+      undoHearingChange: (hearings: HearingRecord[]) =>
+        dispatch({ type: "UNDO_HEARING_CHANGE", hearings }),
+      saveOccurrence: (seriesId: string, occurrenceKey: string, input: HearingInput, scope: RecurrenceScope) =>
+        dispatch({ type: "SAVE_OCCURRENCE", seriesId, occurrenceKey, input, scope }),
+      saveOutcome: (eventId: string, outcome: OutcomeInput) =>
+        dispatch({ type: "SAVE_OUTCOME", eventId, outcome }),
+      generateDeadlines: (triggerId: string, ruleSetId: string) =>
+        dispatch({ type: "GENERATE_DEADLINES", triggerId, ruleSetId }),
+      deleteOccurrence: (seriesId: string, occurrenceKey: string, scope: RecurrenceScope) =>
+        dispatch({ type: "DELETE_OCCURRENCE", seriesId, occurrenceKey, scope }),
+      importClosures: (file: ClosureFile) =>
+        dispatch({ type: "IMPORT_CLOSURES", file }),
+      saveClosure: (input: ClosureInput, closureId?: string) =>
+        dispatch({ type: "SAVE_CLOSURE", input, closureId }),
+      deleteClosure: (closureId: string) =>
+        dispatch({ type: "DELETE_CLOSURE", closureId }),
+      deleteClosureCalendar: (calendarId: string) =>
+        dispatch({ type: "DELETE_CLOSURE_CALENDAR", calendarId }),
+      saveCourthouse: (input: CourthouseInput, courthouseId?: string) =>
+        dispatch({ type: "SAVE_COURTHOUSE", input, courthouseId }),
+      deleteCourthouse: (courthouseId: string) =>
+        dispatch({ type: "DELETE_COURTHOUSE", courthouseId }),
+      saveCourtroom: (input: CourtroomInput, courtroomId?: string) =>
+        dispatch({ type: "SAVE_COURTROOM", input, courtroomId }),
+      deleteCourtroom: (courtroomId: string) =>
+        dispatch({ type: "DELETE_COURTROOM", courtroomId }),
+      saveJudge: (input: JudgeInput, judgeId?: string) =>
+        dispatch({ type: "SAVE_JUDGE", input, judgeId }),
+      deleteJudge: (judgeId: string) =>
+        dispatch({ type: "DELETE_JUDGE", judgeId }),
+      savePerson: (input: PersonInput, personId?: string) =>
+        dispatch({ type: "SAVE_PERSON", input, personId }),
+      deletePerson: (personId: string) =>
+        dispatch({ type: "DELETE_PERSON", personId }),
+      addCaseTag: (caseId: string, name: string, color?: string) =>
+        dispatch({ type: "ADD_CASE_TAG", caseId, name, color }),
+      removeCaseTag: (caseId: string, name: string) =>
+        dispatch({ type: "REMOVE_CASE_TAG", caseId, name }),
+    }),
+    []
+  )
+
+  return {
+    state,
+    cases,
+    events,
+    tags,
+    settings,
+    closureCalendars,
+    closures,
+    resources,
+    people,
+    isLoaded,
+    ...actions,
+  }
+}
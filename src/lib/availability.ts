@@ -0,0 +1,104 @@
+import { addDays, isSameDay, startOfDay } from 'date-fns';
+import { ClosureRecord, Event } from '@/types/calendar';
+import { createClosedDayCheck } from '@/lib/closures';
+import { findConflicts } from '@/lib/conflicts';
+import { occursOn } from '@/lib/event-span';
+import { Session, Slot, SNAP_MINUTES } from '@/lib/reschedule';
+import { minutesToTime } from '@/lib/timeline';
+
+export interface SlotRequest {
+  durationMinutes: number;
+  earliest: Date;
+  // Sessions to look in; both when the user has no preference
+  sessions: Session[];
+  courtroomId?: string;
+  judgeId?: string;
+  // People who must be free; empty means anyone at the firm, so any hearing at the time is in the way
+  personIds?: string[];
+  // The hearing being moved, which shouldn't block its own new slot
+  hearingId?: string;
+}
+
+export interface SlotCandidate extends Slot {
+  session: Session;
+  // False when the hearing starts in the session but runs past its end, e.g. into the lunch break
+  fitsSession: boolean;
+}
+
+export const SLOT_SEARCH_DAYS = 90;
+
+// Court sits 9 to 12 and 13 to 17; a hearing starts within a session and has to finish by the end of the day
+const SESSION_WINDOWS: Record<Session, { start: number; end: number }> = {
+  morning: { start: 9 * 60, end: 12 * 60 },
+  afternoon: { start: 13 * 60, end: 17 * 60 }
+};
+const COURT_DAY_END = 17 * 60;
+
+export const SESSION_LABELS: Record<Session, string> = { morning: 'Morning', afternoon: 'Afternoon' };
+
+const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// Earliest conflict-free start in a session, preferring one that ends before the session does
+const findSessionSlot = (
+  request: SlotRequest,
+  day: Date,
+  session: Session,
+  dayEvents: Event[],
+  notBefore: number
+): SlotCandidate | null => {
+  const window = SESSION_WINDOWS[session];
+  let fallback: SlotCandidate | null = null;
+
+  for (let start = window.start; start < window.end; start += SNAP_MINUTES) {
+    const end = start + request.durationMinutes;
+    if (start < notBefore) continue;
+    if (end > COURT_DAY_END) break;
+
+    const slot = { date: day, startTime: minutesToTime(start), endTime: minutesToTime(end) };
+    const conflicts = findConflicts({
+      ...slot,
+      id: request.hearingId,
+      status: 'scheduled',
+      type: 'hearing',
+      courtroomId: request.courtroomId || undefined,
+      judgeId: request.judgeId || undefined,
+      coveredBy: request.personIds?.length ? request.personIds : undefined
+    }, dayEvents);
+    if (conflicts.length > 0) continue;
+
+    const candidate = { ...slot, session, fitsSession: end <= window.end };
+    if (candidate.fitsSession) return candidate;
+    fallback = fallback ?? candidate;
+  }
+
+  return fallback;
+};
+
+// Open court days from the earliest date on, skipping weekends and closures, with at most one slot per
+// session so the options spread over several days. Sooner days rank first, then slots that fit their session
+export const findOpenSlots = (
+  request: SlotRequest,
+  events: Event[],
+  closures: ClosureRecord[],
+  limit = 5,
+  now = new Date()
+): SlotCandidate[] => {
+  const isClosed = createClosedDayCheck(closures);
+  const candidates: SlotCandidate[] = [];
+  const firstDay = startOfDay(request.earliest < now ? now : request.earliest);
+
+  for (let offset = 0; offset < SLOT_SEARCH_DAYS && candidates.length < limit; offset++) {
+    const day = addDays(firstDay, offset);
+    if (isClosed(day)) continue;
+
+    const dayEvents = events.filter(event => occursOn(event, day));
+    const notBefore = isSameDay(day, now) ? minutesSinceMidnight(now) : 0;
+    const daySlots = request.sessions
+      .map(session => findSessionSlot(request, day, session, dayEvents, notBefore))
+      .filter((slot): slot is SlotCandidate => !!slot)
+      .sort((a, b) => Number(b.fitsSession) - Number(a.fitsSession) || a.startTime.localeCompare(b.startTime));
+    candidates.push(...daySlots);
+  }
+
+  return candidates.slice(0, limit);
+};
@@ -0,0 +1,1037 @@
+import { addDays, differenceInCalendarDays, isSameDay } from 'date-fns';
+import {
+  Case,
+  CalendarSettings,
+  CalendarState,
+  CaseRecord,
+  CaseStatus,
+  ClosureCalendarRecord,
+  ClosureRecord,
+  CourthouseRecord,
+  CourtroomRecord,
+  DeadlineSource,
+  Event,
+  HearingRecord,
+  JudgeRecord,
+  OccurrenceException,
+  PersonRecord,
+  TagRecord
+} from '@/types/calendar';
+import { createId } from '@/lib/utils';
+import { getDefaultTagColor } from '@/lib/tag-colors';
+import { ALL_DAY_END, ALL_DAY_START, getEndDate, getSpanDays } from '@/lib/event-span';
+import { createRescheduleEntry, HearingChange, isSameHearingSlot } from '@/lib/history';
+import { createOutcome, OutcomeInput } from '@/lib/outcomes';
+import { getHeldStatus, INITIAL_STATUS } from '@/lib/statuses';
+import { computeDeadlineDate, describeDeadlineRule, findDeadlineRule, findRuleSet } from '@/lib/deadline-rules';
+import { ClosureFile, ClosureInput, createClosedDayCheck } from '@/lib/closures';
+import { CourthouseInput, CourtroomInput, JudgeInput, Resources } from '@/lib/resources';
+import { PersonInput } from '@/lib/people';
+import {
+  expandHearing,
+  expandOccurrenceDates,
+  findOccurrence,
+  getOccurrenceKey,
+  isSameRecurrence,
+  parseOccurrenceId,
+  parseOccurrenceKey,
+  RecurrenceScope,
+  toOccurrenceId
+} from '@/lib/recurrence';
+
+// What EventForm produces for a hearing, before it has been attached to a case; the change explains a move
+export type HearingInput = Omit<Event, 'id'> & { change?: HearingChange };
+
+// What CaseForm produces; tags are names and get resolved to tag records
+export interface CaseInput {
+  caseNumber: string;
+  title: string;
+  description: string;
+  tags: string[];
+  assigneeIds?: string[];
+}
+
+// Replace swaps in the restored calendar wholesale; merge folds it into the current one
+export type RestoreMode = 'replace' | 'merge';
+
+export type CalendarAction =
+  | {
+      type: 'LOAD';
+      state: CalendarState;
+    }
+  | {
+      type: 'RESTORE';
+      state: CalendarState;
+      mode: RestoreMode;
+    }
+  | {
+      type: 'UPDATE_SETTINGS';
+      settings: Partial<CalendarSettings>;
+    }
+  | {
+      type: 'SAVE_HEARING';
+      hearingId?: string;
+      input: HearingInput;
+    }
+  | {
+      type: 'IMPORT_HEARINGS';
+      hearings: { hearingId: string; input: HearingInput }[];
+    }
+  | {
+      type: 'IMPORT_CASES';
+      cases: Case[];
+    }
+  | {
+      type: 'SAVE_CASE';
+      caseId?: string;
+      input: CaseInput;
+    }
+  | {
+      type: 'SET_CASE_STATUS';
+      caseId: string;
+      status: CaseStatus;
+    }
+  | {
+      type: 'DELETE_HEARING';
+      hearingId: string;
+    }
+  | {
+      type: 'UNDO_HEARING_CHANGE';
+      hearings: HearingRecord[];
+    }
+  | {
+      type: 'SAVE_OCCURRENCE';
+      seriesId: string;
+      occurrenceKey: string;
+      input: HearingInput;
+      scope: RecurrenceScope;
+    }
+  | {
+      type: 'SAVE_OUTCOME';
+      eventId: string;
+      outcome: OutcomeInput;
+    }
+  | {
+      type: 'GENERATE_DEADLINES';
+      triggerId: string;
+      ruleSetId: string;
+    }
+  | {
+      type: 'IMPORT_CLOSURES';
+      file: ClosureFile;
+    }
+  | {
+      type: 'SAVE_CLOSURE';
+      input: ClosureInput;
+      closureId?: string;
+    }
+  | {
+      type: 'DELETE_CLOSURE';
+      closureId: string;
+    }
+  | {
+      type: 'DELETE_CLOSURE_CALENDAR';
+      calendarId: string;
+    }
+  | {
+      type: 'SAVE_COURTHOUSE';
+      input: CourthouseInput;
+      courthouseId?: string;
+    }
+  | {
+      type: 'DELETE_COURTHOUSE';
+      courthouseId: string;
+    }
+  | {
+      type: 'SAVE_COURTROOM';
+      input: CourtroomInput;
+      courtroomId?: string;
+    }
+  | {
+      type: 'DELETE_COURTROOM';
+      courtroomId: string;
+    }
+  | {
+      type: 'SAVE_JUDGE';
+      input: JudgeInput;
+      judgeId?: string;
+    }
+  | {
+      type: 'DELETE_JUDGE';
+      judgeId: string;
+    }
+  | {
+      type: 'SAVE_PERSON';
+      input: PersonInput;
+      personId?: string;
+    }
+  | {
+      type: 'DELETE_PERSON';
+      personId: string;
+    }
+  | {
+      type: 'DELETE_OCCURRENCE';
+      seriesId: string;
+      occurrenceKey: string;
+      scope: RecurrenceScope;
+    }
+  | {
+      type: 'ADD_CASE_TAG';
+      caseId: string;
+      name: string;
+      color?: string;
+    }
+  | {
+      type: 'REMOVE_CASE_TAG';
+      caseId: string;
+      name: string;
+    };
+
+export const defaultSettings: CalendarSettings = { view: 'weekly', firmName: '', userName: '', personId: '' };
+
+export const emptyCalendarState: CalendarState = {
+  cases: {},
+  hearings: {},
+  tags: {},
+  closureCalendars: {},
+  closures: {},
+  courthouses: {},
+  courtrooms: {},
+  judges: {},
+  people: {},
+  settings: defaultSettings
+};
+
+const findCaseByNumber = (state: CalendarState, caseNumber: string) =>
+  Object.values(state.cases).find(caseItem => caseItem.caseNumber === caseNumber);
+
+const findTagByName = (state: CalendarState, name: string) =>
+  Object.values(state.tags).find(tag => tag.name === name);
+
+// Returns the existing tag with that name, or creates one
+const ensureTag = (state: CalendarState, name: string, color?: string): [CalendarState, TagRecord] => {
+  const existing = findTagByName(state, name);
+  if (existing) return [state, existing];
+
+  const tag: TagRecord = { id: createId('tag'), name, color: color ?? getDefaultTagColor(name) };
+  return [{ ...state, tags: { ...state.tags, [tag.id]: tag } }, tag];
+};
+
+// EventForm prefixes the hearing title with the case number for display; the record stores it bare
+export const stripCasePrefix = (title: string, caseNumber: string) =>
+  title.startsWith(`${caseNumber}: `) ? title.slice(caseNumber.length + 2) : title;
+
+const saveHearing = (state: CalendarState, input: HearingInput, hearingId?: string): CalendarState => {
+  const caseNumber = input.caseNumber.trim();
+  let cases = state.cases;
+  let caseRecord = findCaseByNumber(state, caseNumber);
+
+  // A hearing for an unknown case number opens that case
+  if (!caseRecord) {
+    caseRecord = {
+      id: createId('case'),
+      caseNumber,
+      title: `Case ${caseNumber}`,
+      description: '',
+      tagIds: [],
+      status: 'open'
+    };
+    cases = { ...cases, [caseRecord.id]: caseRecord };
+  }
+
+  const id = hearingId ?? createId('hearing');
+  const existing = hearingId ? state.hearings[hearingId] : undefined;
+  const startTime = input.allDay ? ALL_DAY_START : input.startTime;
+  const endTime = input.allDay ? ALL_DAY_END : input.endTime;
+  const endDate = getSpanDays(input) > 1 ? input.endDate : undefined;
+  // Left out of the input the hearing keeps its people; an empty list hands it back to the case's team
+  const assigneeIds = input.assigneeIds ?? existing?.assigneeIds;
+  const slot = { date: input.date, endDate, allDay: input.allDay, startTime, endTime };
+  const isMoved = existing && !isSameHearingSlot(existing, slot);
+  const hearing: HearingRecord = {
+    id,
+    caseId: caseRecord.id,
+    title: stripCasePrefix(input.title, caseNumber),
+    notes: input.notes,
+    date: input.date,
+    startTime,
+    endTime,
+    endDate,
+    allDay: input.allDay || undefined,
+    status: input.status,
+    type: input.type === 'deadline' ? 'deadline' : undefined,
+    sequence: (existing?.sequence ?? 0) + (isMoved ? 1 : 0),
+    history: isMoved
+      ? [...(existing.history ?? []), createRescheduleEntry(existing, slot, input.change, selectSettings(state).userName)]
+      : existing?.history,
+    outcome: existing?.outcome,
+    followUpOf: input.followUpOf ?? existing?.followUpOf,
+    deadlineSource: existing?.deadlineSource,
+    // Left out of the input they stay as they were; an empty string clears them
+    courtroomId: (input.courtroomId ?? existing?.courtroomId) || undefined,
+    judgeId: (input.judgeId ?? existing?.judgeId) || undefined,
+    assigneeIds: assigneeIds?.length ? assigneeIds : undefined,
+    recurrence: input.recurrence,
+    // Exceptions are keyed by occurrence date, so they only survive while the dates they refer to do
+    exceptions: existing && isSameDay(existing.date, input.date) && isSameRecurrence(existing.recurrence, input.recurrence)
+      ? existing.exceptions
+      : undefined
+  };
+
+  return { ...state, cases, hearings: { ...state.hearings, [id]: hearing } };
+};
+
+const withHearing = (state: CalendarState, hearing: HearingRecord): CalendarState =>
+  ({ ...state, hearings: { ...state.hearings, [hearing.id]: hearing } });
+
+const pickExceptions = (hearing: HearingRecord, keep: (key: string) => boolean) => {
+  const entries = Object.entries(hearing.exceptions ?? {}).filter(([key]) => keep(key));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Ends a series the day before the given occurrence; returns it with the count left for a continuation
+const truncateSeries = (series: HearingRecord, occurrenceKey: string): [HearingRecord, number | undefined] => {
+  const splitDate = parseOccurrenceKey(occurrenceKey);
+  const before = expandOccurrenceDates(series.date, series.recurrence).filter(date => date < splitDate).length;
+  const truncated: HearingRecord = {
+    ...series,
+    recurrence: { ...series.recurrence, until: addDays(splitDate, -1), count: undefined },
+    exceptions: pickExceptions(series, key => key < occurrenceKey)
+  };
+  return [truncated, series.recurrence.count ? series.recurrence.count - before : undefined];
+};
+
+// Only fields that differ from the series are stored, so later series-wide edits still reach this occurrence
+const isSameAssignees = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every(personId => b.includes(personId));
+
+const saveSingleOccurrence = (state: CalendarState, series: HearingRecord, occurrenceKey: string, input: HearingInput) => {
+  const occurrence = findOccurrence(series, occurrenceKey);
+  const title = stripCasePrefix(input.title, input.caseNumber.trim());
+  const allDay = !!input.allDay;
+  const startTime = allDay ? ALL_DAY_START : input.startTime;
+  const endTime = allDay ? ALL_DAY_END : input.endTime;
+  const slot = { date: input.date, endDate: input.endDate, allDay, startTime, endTime };
+  const isMoved = !isSameHearingSlot(occurrence, slot);
+  const sequence = occurrence.sequence + (isMoved ? 1 : 0);
+  const history = isMoved
+    ? [...occurrence.history, createRescheduleEntry(occurrence, slot, input.change, selectSettings(state).userName)]
+    : occurrence.history;
+
+  // An empty courtroom or judge is an explicit override; left out, the occurrence keeps what it had
+  const courtroomId = input.courtroomId ?? occurrence.courtroomId ?? '';
+  const judgeId = input.judgeId ?? occurrence.judgeId ?? '';
+  const assigneeIds = input.assigneeIds ?? occurrence.assigneeIds ?? [];
+
+  const exception: OccurrenceException = {};
+  if (title !== series.title) exception.title = title;
+  if (input.notes !== series.notes) exception.notes = input.notes;
+  if (!isSameDay(input.date, parseOccurrenceKey(occurrenceKey))) exception.date = input.date;
+  if (getSpanDays(input) !== getSpanDays(series)) exception.endDate = getEndDate(input);
+  if (allDay !== !!series.allDay) exception.allDay = allDay;
+  if (startTime !== series.startTime) exception.startTime = startTime;
+  if (endTime !== series.endTime) exception.endTime = endTime;
+  if (input.status !== series.status) exception.status = input.status;
+  if (sequence !== (series.sequence ?? 0)) exception.sequence = sequence;
+  if (history.length > 0) exception.history = history;
+  if (occurrence.outcome) exception.outcome = occurrence.outcome;
+  if ((courtroomId || undefined) !== series.courtroomId) exception.courtroomId = courtroomId;
+  if ((judgeId || undefined) !== series.judgeId) exception.judgeId = judgeId;
+  if (!isSameAssignees(assigneeIds, series.assigneeIds)) exception.assigneeIds = assigneeIds;
+
+  const exceptions = { ...pickExceptions(series, key => key !== occurrenceKey) };
+  if (Object.keys(exception).length > 0) exceptions[occurrenceKey] = exception;
+  return withHearing(state, { ...series, exceptions: Object.keys(exceptions).length > 0 ? exceptions : undefined });
+};
+
+// Deadlines count from an occurrence by its id, so when a series shifts or splits they are pointed at the
+// occurrence's new id; occurrences with nowhere to go keep theirs, and syncDeadlines drops their deadlines
+const retargetTriggers = (
+  state: CalendarState,
+  seriesId: string,
+  retarget: (occurrenceKey: string) => string | undefined
+): CalendarState => {
+  const hearings = Object.fromEntries(Object.entries(state.hearings).map(([id, hearing]) => {
+    const occurrence = hearing.deadlineSource && parseOccurrenceId(hearing.deadlineSource.triggerId);
+    const triggerId = occurrence?.seriesId === seriesId ? retarget(occurrence.occurrenceKey) : undefined;
+    return [id, triggerId ? { ...hearing, deadlineSource: { ...hearing.deadlineSource, triggerId } } : hearing];
+  }));
+  return { ...state, hearings };
+};
+
+// Where an occurrence lands in a series that now starts a number of days later; a series turned into a single
+// hearing only keeps the occurrence that was edited
+const getShiftedTriggerId = (
+  hearingId: string,
+  input: HearingInput,
+  editedKey: string,
+  shift: number
+) => (occurrenceKey: string) => {
+  if (!input.recurrence) return occurrenceKey === editedKey ? hearingId : undefined;
+  return toOccurrenceId(hearingId, getOccurrenceKey(addDays(parseOccurrenceKey(occurrenceKey), shift)));
+};
+
+const saveOccurrence = (
+  state: CalendarState,
+  seriesId: string,
+  occurrenceKey: string,
+  input: HearingInput,
+  scope: RecurrenceScope
+): CalendarState => {
+  const series = state.hearings[seriesId];
+  if (!series?.recurrence) return state;
+  const isFirst = occurrenceKey === getOccurrenceKey(series.date);
+
+  if (scope === 'this') return saveSingleOccurrence(state, series, occurrenceKey, input);
+
+  // Moving one occurrence by some days moves the rest by the same amount
+  const shift = differenceInCalendarDays(input.date, parseOccurrenceKey(occurrenceKey));
+
+  if (scope === 'all' || isFirst) {
+    const date = input.recurrence ? addDays(series.date, shift) : input.date;
+    const endDate = addDays(date, getSpanDays(input) - 1);
+    const next = saveHearing(state, { ...input, date, endDate }, seriesId);
+    return retargetTriggers(next, seriesId, getShiftedTriggerId(seriesId, input, occurrenceKey, shift));
+  }
+
+  // This and following: the series ends before this occurrence and a new one continues from it
+  const [truncated, remainingCount] = truncateSeries(series, occurrenceKey);
+  const unchangedRule = isSameRecurrence(input.recurrence, series.recurrence);
+  const recurrence = unchangedRule && remainingCount ? { ...input.recurrence, count: remainingCount } : input.recurrence;
+  const continuationId = createId('hearing');
+  const toContinuation = getShiftedTriggerId(continuationId, { ...input, recurrence }, occurrenceKey, shift);
+  const next = retargetTriggers(
+    saveHearing(withHearing(state, truncated), { ...input, recurrence }, continuationId),
+    seriesId,
+    key => key >= occurrenceKey ? toContinuation(key) : undefined
+  );
+
+  // Later exceptions still line up when the continuation keeps the same dates
+  const keepsDates = unchangedRule && getOccurrenceKey(input.date) === occurrenceKey;
+  const continuation = next.hearings[continuationId];
+  return keepsDates
+    ? withHearing(next, { ...continuation, exceptions: pickExceptions(series, key => key > occurrenceKey) })
+    : next;
+};
+
+const deleteOccurrence = (
+  state: CalendarState,
+  seriesId: string,
+  occurrenceKey: string,
+  scope: RecurrenceScope
+): CalendarState => {
+  const series = state.hearings[seriesId];
+  if (!series?.recurrence) return state;
+
+  if (scope === 'all' || (scope === 'following' && occurrenceKey === getOccurrenceKey(series.date))) {
+    const { [seriesId]: _removed, ...hearings } = state.hearings;
+    return { ...state, hearings };
+  }
+
+  if (scope === 'following') return withHearing(state, truncateSeries(series, occurrenceKey)[0]);
+
+  return withHearing(state, { ...series, exceptions: { ...series.exceptions, [occurrenceKey]: { skipped: true } } });
+};
+
+// Recording what happened marks the hearing held; occurrences of a series keep their outcome in their exception
+const saveOutcome = (state: CalendarState, eventId: string, input: OutcomeInput): CalendarState => {
+  const outcome = createOutcome(input, selectSettings(state).userName);
+  const occurrence = parseOccurrenceId(eventId);
+  const series = occurrence && state.hearings[occurrence.seriesId];
+
+  if (series?.recurrence) {
+    const { occurrenceKey } = occurrence;
+    const status = getHeldStatus(findOccurrence(series, occurrenceKey).status);
+    const exception: OccurrenceException = { ...series.exceptions?.[occurrenceKey], outcome };
+    if (status !== series.status) exception.status = status;
+    return withHearing(state, { ...series, exceptions: { ...series.exceptions, [occurrenceKey]: exception } });
+  }
+
+  const hearing = state.hearings[eventId];
+  if (!hearing) return state;
+  return withHearing(state, { ...hearing, outcome, status: getHeldStatus(hearing.status) });
+};
+
+// The hearing a deadline counts from: a single hearing or one occurrence of a series
+const findTrigger = (state: CalendarState, triggerId: string) => {
+  const occurrence = parseOccurrenceId(triggerId);
+  const series = occurrence && state.hearings[occurrence.seriesId];
+  if (series?.recurrence) {
+    const { occurrenceKey } = occurrence;
+    const isOccurrence = expandOccurrenceDates(series.date, series.recurrence)
+      .some(date => getOccurrenceKey(date) === occurrenceKey);
+    if (!isOccurrence || series.exceptions?.[occurrenceKey]?.skipped) return undefined;
+    const { title, date } = findOccurrence(series, occurrenceKey);
+    return { caseId: series.caseId, title, date };
+  }
+
+  const hearing = state.hearings[triggerId];
+  return hearing && { caseId: hearing.caseId, title: hearing.title, date: hearing.date };
+};
+
+// Adds the rule set's deadlines to the hearing's case; rules already applied to this hearing are left alone
+const generateDeadlines = (state: CalendarState, triggerId: string, ruleSetId: string): CalendarState => {
+  const trigger = findTrigger(state, triggerId);
+  const ruleSet = findRuleSet(ruleSetId);
+  if (!trigger || !ruleSet) return state;
+
+  const existing = Object.values(state.hearings)
+    .filter(hearing => hearing.deadlineSource?.triggerId === triggerId && hearing.deadlineSource.ruleSetId === ruleSetId)
+    .map(hearing => hearing.deadlineSource.ruleId);
+
+  const isClosed = createClosedDayCheck(selectClosures(state));
+  return ruleSet.rules.filter(rule => !existing.includes(rule.id)).reduce((next, rule) => {
+    const deadlineSource: DeadlineSource = { triggerId, ruleSetId, ruleId: rule.id, triggerDate: trigger.date };
+    return withHearing(next, {
+      id: createId('hearing'),
+      caseId: trigger.caseId,
+      title: rule.name,
+      notes: `${describeDeadlineRule(rule)}: ${trigger.title}`,
+      date: computeDeadlineDate(trigger.date, rule, isClosed),
+      startTime: ALL_DAY_START,
+      endTime: ALL_DAY_END,
+      allDay: true,
+      status: INITIAL_STATUS,
+      type: 'deadline',
+      sequence: 0,
+      deadlineSource
+    });
+  }, state);
+};
+
+// Deadlines follow their hearing: once it has moved they are computed again from its new date, and all of them
+// are when the court's closures change. Deleting the hearing deletes the deadlines counted from it.
+const syncDeadlines = (state: CalendarState, closuresChanged = false): CalendarState => {
+  const isClosed = createClosedDayCheck(selectClosures(state));
+
+  return Object.values(state.hearings).reduce((next, hearing) => {
+    const source = hearing.deadlineSource;
+    if (!source) return next;
+
+    const trigger = findTrigger(next, source.triggerId);
+    if (!trigger) {
+      const { [hearing.id]: _removed, ...hearings } = next.hearings;
+      return { ...next, hearings };
+    }
+
+    const rule = findDeadlineRule(source.ruleSetId, source.ruleId);
+    const triggerMoved = trigger.date.getTime() !== source.triggerDate.getTime();
+    if (!rule || !(triggerMoved || closuresChanged)) return next;
+
+    const date = computeDeadlineDate(trigger.date, rule, isClosed);
+    const deadlineSource = { ...source, triggerDate: trigger.date };
+    if (date.getTime() === hearing.date.getTime()) return withHearing(next, { ...hearing, deadlineSource });
+
+    const slot = { date, endDate: undefined, allDay: hearing.allDay, startTime: hearing.startTime, endTime: hearing.endTime };
+    const change = {
+      reason: 'other' as const,
+      note: triggerMoved ? `Recomputed after ${trigger.title} moved` : 'Recomputed after court closures changed'
+    };
+    return withHearing(next, {
+      ...hearing,
+      ...slot,
+      deadlineSource,
+      sequence: (hearing.sequence ?? 0) + 1,
+      history: [...(hearing.history ?? []), createRescheduleEntry(hearing, slot, change, selectSettings(state).userName)]
+    });
+  }, state);
+};
+
+// A re-imported file replaces the closures of the calendar with the same name
+const importClosures = (state: CalendarState, file: ClosureFile): CalendarState => {
+  const name = file.name.trim() || 'Imported closures';
+  const existing = Object.values(state.closureCalendars).find(calendar => calendar.name === name);
+  const calendar: ClosureCalendarRecord = existing ?? { id: createId('closure-calendar'), name };
+
+  const closures = Object.fromEntries(
+    Object.entries(state.closures).filter(([, closure]) => closure.calendarId !== calendar.id)
+  );
+  file.closures.forEach(input => {
+    const closure: ClosureRecord = { ...input, id: createId('closure'), calendarId: calendar.id };
+    closures[closure.id] = closure;
+  });
+
+  return { ...state, closureCalendars: { ...state.closureCalendars, [calendar.id]: calendar }, closures };
+};
+
+const saveClosure = (state: CalendarState, input: ClosureInput, closureId?: string): CalendarState => {
+  const existing = closureId ? state.closures[closureId] : undefined;
+  const closure: ClosureRecord = {
+    id: existing?.id ?? createId('closure'),
+    calendarId: existing?.calendarId,
+    name: input.name.trim(),
+    date: input.date,
+    endDate: input.endDate && differenceInCalendarDays(input.endDate, input.date) > 0 ? input.endDate : undefined
+  };
+  return { ...state, closures: { ...state.closures, [closure.id]: closure } };
+};
+
+const saveCase = (state: CalendarState, input: CaseInput, caseId?: string): CalendarState => {
+  let next = state;
+  const tagIds: string[] = [];
+  input.tags.map(name => name.trim()).filter(Boolean).forEach(name => {
+    const [withTag, tag] = ensureTag(next, name);
+    next = withTag;
+    if (!tagIds.includes(tag.id)) tagIds.push(tag.id);
+  });
+
+  const existing = caseId ? state.cases[caseId] : undefined;
+  const caseRecord: CaseRecord = {
+    id: existing?.id ?? createId('case'),
+    caseNumber: input.caseNumber.trim(),
+    title: input.title.trim(),
+    description: input.description.trim(),
+    tagIds,
+    status: existing?.status ?? 'open',
+    closedAt: existing?.closedAt,
+    assigneeIds: input.assigneeIds?.length ? input.assigneeIds : undefined
+  };
+
+  return { ...next, cases: { ...next.cases, [caseRecord.id]: caseRecord } };
+};
+
+// Merges nested cases (e.g. from a spreadsheet) into the store; rows for a known case number join that case
+const importCases = (state: CalendarState, importedCases: Case[]): CalendarState => {
+  let next = state;
+
+  importedCases.forEach(caseItem => {
+    const tagIds: string[] = [];
+    caseItem.tags.forEach(name => {
+      const [withTag, tag] = ensureTag(next, name);
+      next = withTag;
+      tagIds.push(tag.id);
+    });
+
+    const existing = findCaseByNumber(next, caseItem.caseNumber);
+    const caseRecord: CaseRecord = existing
+      ? { ...existing, tagIds: [...new Set([...existing.tagIds, ...tagIds])] }
+      : {
+          id: caseItem.id,
+          caseNumber: caseItem.caseNumber,
+          title: caseItem.title,
+          description: caseItem.description,
+          tagIds,
+          status: caseItem.status ?? 'open'
+        };
+
+    const hearings = { ...next.hearings };
+    caseItem.hearings.forEach(hearing => {
+      hearings[hearing.id] = { ...hearing, caseId: caseRecord.id };
+    });
+
+    next = { ...next, cases: { ...next.cases, [caseRecord.id]: caseRecord }, hearings };
+  });
+
+  return next;
+};
+
+// Hearings, their occurrences and judges stop pointing at courtrooms or judges that were removed; an occurrence
+// override becomes empty rather than falling back to the series' courtroom or judge
+const clearResourceReferences = (
+  state: CalendarState,
+  field: 'courtroomId' | 'judgeId',
+  removedIds: string[]
+): CalendarState => {
+  const isRemoved = (id?: string) => !!id && removedIds.includes(id);
+
+  const hearings = Object.fromEntries(Object.entries(state.hearings).map(([id, hearing]) => {
+    const exceptions = hearing.exceptions && Object.fromEntries(Object.entries(hearing.exceptions).map(([key, exception]) =>
+      [key, isRemoved(exception[field]) ? { ...exception, [field]: '' } : exception]
+    ));
+    return [id, { ...hearing, [field]: isRemoved(hearing[field]) ? undefined : hearing[field], exceptions }];
+  }));
+  const judges = field === 'courtroomId'
+    ? Object.fromEntries(Object.entries(state.judges).map(([id, judge]) =>
+        [id, isRemoved(judge.courtroomId) ? { ...judge, courtroomId: undefined } : judge]
+      ))
+    : state.judges;
+
+  return { ...state, hearings, judges };
+};
+
+// Tags merge by name, cases by case number and hearings by id; the current settings are kept
+const mergeState = (state: CalendarState, incoming: CalendarState): CalendarState => {
+  let next = state;
+
+  const tagIdMap: Record<string, string> = {};
+  Object.values(incoming.tags).forEach(tag => {
+    const [withTag, merged] = ensureTag(next, tag.name, tag.color);
+    next = withTag;
+    tagIdMap[tag.id] = merged.id;
+  });
+
+  const caseIdMap: Record<string, string> = {};
+  const cases = { ...next.cases };
+  Object.values(incoming.cases).forEach(caseRecord => {
+    const tagIds = caseRecord.tagIds.map(tagId => tagIdMap[tagId]).filter(Boolean);
+    const existing = findCaseByNumber(next, caseRecord.caseNumber);
+    const merged: CaseRecord = existing
+      ? { ...existing, tagIds: [...new Set([...existing.tagIds, ...tagIds])] }
+      : { ...caseRecord, tagIds };
+    cases[merged.id] = merged;
+    caseIdMap[caseRecord.id] = merged.id;
+  });
+
+  const hearings = { ...next.hearings };
+  Object.values(incoming.hearings).forEach(hearing => {
+    hearings[hearing.id] = { ...hearing, caseId: caseIdMap[hearing.caseId] ?? hearing.caseId };
+  });
+
+  return {
+    ...next,
+    cases,
+    hearings,
+    closureCalendars: { ...next.closureCalendars, ...incoming.closureCalendars },
+    closures: { ...next.closures, ...incoming.closures },
+    courthouses: { ...next.courthouses, ...incoming.courthouses },
+    courtrooms: { ...next.courtrooms, ...incoming.courtrooms },
+    judges: { ...next.judges, ...incoming.judges },
+    people: { ...next.people, ...incoming.people }
+  };
+};
+
+export const calendarReducer = (state: CalendarState, action: CalendarAction): CalendarState => {
+  switch (action.type) {
+    case 'LOAD':
+      return action.state;
+
+    case 'RESTORE':
+      return action.mode === 'replace' ? action.state : mergeState(state, action.state);
+
+    case 'UPDATE_SETTINGS':
+      return { ...state, settings: { ...state.settings, ...action.settings } };
+
+    case 'SAVE_HEARING':
+      return syncDeadlines(saveHearing(state, action.input, action.hearingId));
+
+    case 'IMPORT_HEARINGS':
+      return syncDeadlines(action.hearings.reduce((next, { hearingId, input }) => {
+        // Re-imported occurrences of our own recurring hearings update just that occurrence
+        const occurrence = parseOccurrenceId(hearingId);
+        return occurrence && next.hearings[occurrence.seriesId]
+          ? saveOccurrence(next, occurrence.seriesId, occurrence.occurrenceKey, input, 'this')
+          : saveHearing(next, input, hearingId);
+      }, state));
+
+    case 'IMPORT_CASES':
+      return importCases(state, action.cases);
+
+    case 'SAVE_CASE':
+      return saveCase(state, action.input, action.caseId);
+
+    case 'SET_CASE_STATUS': {
+      const caseRecord = state.cases[action.caseId];
+      if (!caseRecord || caseRecord.status === action.status) return state;
+
+      return {
+        ...state,
+        cases: {
+          ...state.cases,
+          [caseRecord.id]: {
+            ...caseRecord,
+            status: action.status,
+            closedAt: action.status === 'open' ? undefined : caseRecord.closedAt ?? new Date()
+          }
+        }
+      };
+    }
+
+    case 'DELETE_HEARING': {
+      const { [action.hearingId]: _removed, ...hearings } = state.hearings;
+      return syncDeadlines({ ...state, hearings });
+    }
+
+    // Puts records back exactly as they were, so an undone move leaves no history and no new sequence behind
+    case 'UNDO_HEARING_CHANGE':
+      return action.hearings.reduce(withHearing, state);
+
+    case 'SAVE_OCCURRENCE':
+      return syncDeadlines(saveOccurrence(state, action.seriesId, action.occurrenceKey, action.input, action.scope));
+
+    case 'SAVE_OUTCOME':
+      return saveOutcome(state, action.eventId, action.outcome);
+
+    case 'GENERATE_DEADLINES':
+      return generateDeadlines(state, action.triggerId, action.ruleSetId);
+
+    case 'IMPORT_CLOSURES':
+      return syncDeadlines(importClosures(state, action.file), true);
+
+    case 'SAVE_CLOSURE':
+      return syncDeadlines(saveClosure(state, action.input, action.closureId), true);
+
+    case 'DELETE_CLOSURE': {
+      const { [action.closureId]: _removed, ...closures } = state.closures;
+      return syncDeadlines({ ...state, closures }, true);
+    }
+
+    case 'DELETE_CLOSURE_CALENDAR': {
+      const { [action.calendarId]: _removed, ...closureCalendars } = state.closureCalendars;
+      const closures = Object.fromEntries(
+        Object.entries(state.closures).filter(([, closure]) => closure.calendarId !== action.calendarId)
+      );
+      return syncDeadlines({ ...state, closureCalendars, closures }, true);
+    }
+
+    case 'SAVE_COURTHOUSE': {
+      const courthouse: CourthouseRecord = {
+        id: action.courthouseId ?? createId('courthouse'),
+        name: action.input.name.trim(),
+        address: action.input.address.trim(),
+        timeZone: action.input.timeZone.trim()
+      };
+      return { ...state, courthouses: { ...state.courthouses, [courthouse.id]: courthouse } };
+    }
+
+    case 'DELETE_COURTHOUSE': {
+      // Its courtrooms go with it; hearings and judges that pointed at them no longer have a courtroom
+      const { [action.courthouseId]: _removed, ...courthouses } = state.courthouses;
+      const removedIds = Object.values(state.courtrooms)
+        .filter(courtroom => courtroom.courthouseId === action.courthouseId)
+        .map(courtroom => courtroom.id);
+      const courtrooms = Object.fromEntries(
+        Object.entries(state.courtrooms).filter(([id]) => !removedIds.includes(id))
+      );
+      return clearResourceReferences({ ...state, courthouses, courtrooms }, 'courtroomId', removedIds);
+    }
+
+    case 'SAVE_COURTROOM': {
+      const courtroom: CourtroomRecord = {
+        id: action.courtroomId ?? createId('courtroom'),
+        courthouseId: action.input.courthouseId,
+        name: action.input.name.trim()
+      };
+      return { ...state, courtrooms: { ...state.courtrooms, [courtroom.id]: courtroom } };
+    }
+
+    case 'DELETE_COURTROOM': {
+      const { [action.courtroomId]: _removed, ...courtrooms } = state.courtrooms;
+      return clearResourceReferences({ ...state, courtrooms }, 'courtroomId', [action.courtroomId]);
+    }
+
+    case 'SAVE_JUDGE': {
+      const judge: JudgeRecord = {
+        id: action.judgeId ?? createId('judge'),
+        name: action.input.name.trim(),
+        courtroomId: action.input.courtroomId || undefined
+      };
+      return { ...state, judges: { ...state.judges, [judge.id]: judge } };
+    }
+
+    case 'DELETE_JUDGE': {
+      const { [action.judgeId]: _removed, ...judges } = state.judges;
+      return clearResourceReferences({ ...state, judges }, 'judgeId', [action.judgeId]);
+    }
+
+    case 'SAVE_PERSON': {
+      const person: PersonRecord = {
+        id: action.personId ?? createId('person'),
+        name: action.input.name.trim(),
+        role: action.input.role,
+        color: action.input.color
+      };
+      return { ...state, people: { ...state.people, [person.id]: person } };
+    }
+
+    case 'DELETE_PERSON': {
+      // Hearings keep the id in their own assignees; selectEvents drops people who no longer exist
+      const { [action.personId]: _removed, ...people } = state.people;
+      const cases = Object.fromEntries(
+        Object.entries(state.cases).map(([caseId, caseRecord]) => [
+          caseId,
+          { ...caseRecord, assigneeIds: caseRecord.assigneeIds?.filter(personId => personId !== action.personId) }
+        ])
+      );
+      const settings = state.settings.personId === action.personId ? { ...state.settings, personId: '' } : state.settings;
+      return { ...state, people, cases, settings };
+    }
+
+    case 'DELETE_OCCURRENCE':
+      return syncDeadlines(deleteOccurrence(state, action.seriesId, action.occurrenceKey, action.scope));
+
+    case 'ADD_CASE_TAG': {
+      const caseRecord = state.cases[action.caseId];
+      const name = action.name.trim();
+      if (!caseRecord || !name) return state;
+
+      const [next, tag] = ensureTag(state, name, action.color);
+      // Avoid duplicate tags
+      if (caseRecord.tagIds.includes(tag.id)) return state;
+
+      return {
+        ...next,
+        cases: { ...next.cases, [caseRecord.id]: { ...caseRecord, tagIds: [...caseRecord.tagIds, tag.id] } }
+      };
+    }
+
+    case 'REMOVE_CASE_TAG': {
+      const caseRecord = state.cases[action.caseId];
+      const tag = findTagByName(state, action.name);
+      if (!caseRecord || !tag) return state;
+
+      return {
+        ...state,
+        cases: {
+          ...state.cases,
+          [caseRecord.id]: { ...caseRecord, tagIds: caseRecord.tagIds.filter(tagId => tagId !== tag.id) }
+        }
+      };
+    }
+  }
+};
+
+// Builds the normalized state from nested cases (sample data, legacy storage)
+export const normalizeCases = (nestedCases: Case[]): CalendarState => {
+  const state: CalendarState = { ...emptyCalendarState, cases: {}, hearings: {}, tags: {} };
+
+  nestedCases.forEach(caseItem => {
+    const tagIds = caseItem.tags.map(name => {
+      let tag = findTagByName(state, name);
+      if (!tag) {
+        tag = { id: createId('tag'), name, color: getDefaultTagColor(name) };
+        state.tags[tag.id] = tag;
+      }
+      return tag.id;
+    });
+
+    const caseRecord: CaseRecord = {
+      id: caseItem.id,
+      caseNumber: caseItem.caseNumber,
+      title: caseItem.title,
+      description: caseItem.description,
+      tagIds,
+      status: caseItem.status ?? 'open',
+      assigneeIds: caseItem.assigneeIds
+    };
+    state.cases[caseRecord.id] = caseRecord;
+
+    caseItem.hearings.forEach(hearing => {
+      state.hearings[hearing.id] = { ...hearing, caseId: caseItem.id };
+    });
+  });
+
+  return state;
+};
+
+const compareHearings = (a: HearingRecord, b: HearingRecord) =>
+  a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime);
+
+// The records a change to one hearing or occurrence touches: its hearing or series and the deadlines counted from it
+export const selectHearingSnapshot = (state: CalendarState, eventId: string): HearingRecord[] => {
+  const hearingId = parseOccurrenceId(eventId)?.seriesId ?? eventId;
+  return Object.values(state.hearings)
+    .filter(hearing => hearing.id === hearingId || hearing.deadlineSource?.triggerId === eventId);
+};
+
+// Records are replaced whenever they change, so a snapshot is current while the state still holds each of them
+export const isHearingSnapshotCurrent = (state: CalendarState, eventId: string, snapshot: HearingRecord[]) => {
+  const current = selectHearingSnapshot(state, eventId);
+  return current.length === snapshot.length && current.every(hearing => snapshot.includes(hearing));
+};
+
+export const selectSettings = (state: CalendarState): CalendarSettings => ({ ...defaultSettings, ...state.settings });
+
+export const selectTags = (state: CalendarState): TagRecord[] =>
+  Object.values(state.tags).sort((a, b) => a.name.localeCompare(b.name));
+
+export const selectClosureCalendars = (state: CalendarState): ClosureCalendarRecord[] =>
+  Object.values(state.closureCalendars).sort((a, b) => a.name.localeCompare(b.name));
+
+export const selectClosures = (state: CalendarState): ClosureRecord[] =>
+  Object.values(state.closures).sort((a, b) => a.date.getTime() - b.date.getTime());
+
+const byName = <T extends { name: string }>(records: Record<string, T>) =>
+  Object.values(records).sort((a, b) => a.name.localeCompare(b.name));
+
+export const selectPeople = (state: CalendarState): PersonRecord[] => byName(state.people);
+
+export const selectResources = (state: CalendarState): Resources => ({
+  courthouses: byName(state.courthouses),
+  courtrooms: byName(state.courtrooms),
+  judges: byName(state.judges)
+});
+
+export const selectCases = (state: CalendarState): Case[] => {
+  const hearings = Object.values(state.hearings).sort(compareHearings);
+
+  return Object.values(state.cases).map(caseRecord => ({
+    id: caseRecord.id,
+    caseNumber: caseRecord.caseNumber,
+    title: caseRecord.title,
+    description: caseRecord.description,
+    tags: caseRecord.tagIds.map(tagId => state.tags[tagId]?.name).filter(Boolean),
+    status: caseRecord.status,
+    assigneeIds: caseRecord.assigneeIds,
+    hearings: hearings
+      .filter(hearing => hearing.caseId === caseRecord.id)
+      .map(({ caseId, ...hearing }) => hearing)
+  }));
+};
+
+// Flattens hearings into the Event view-model used by WeeklyView, ListView and EventForm; recurring hearings
+// become one event per occurrence
+export const selectEvents = (state: CalendarState): Event[] => {
+  const today = new Date();
+
+  return Object.values(state.hearings)
+    .filter(hearing => state.cases[hearing.caseId])
+    .flatMap((hearing): Event[] => {
+      const caseRecord = state.cases[hearing.caseId];
+      const base = {
+        description: caseRecord.description,
+        type: hearing.type ?? 'hearing',
+        caseNumber: caseRecord.caseNumber,
+        parentId: caseRecord.id
+      };
+      const getCoveredBy = (assigneeIds?: string[]) =>
+        (assigneeIds?.length ? assigneeIds : caseRecord.assigneeIds ?? []).filter(personId => state.people[personId]);
+
+      if (!hearing.recurrence) {
+        return [{
+          ...base,
+          id: hearing.id,
+          title: `${caseRecord.caseNumber}: ${hearing.title}`,
+          notes: hearing.notes,
+          date: hearing.date,
+          endDate: hearing.endDate,
+          allDay: hearing.allDay,
+          startTime: hearing.startTime,
+          endTime: hearing.endTime,
+          status: hearing.status,
+          sequence: hearing.sequence ?? 0,
+          history: hearing.history,
+          outcome: hearing.outcome,
+          followUpOf: hearing.followUpOf,
+          deadlineSource: hearing.deadlineSource,
+          courtroomId: hearing.courtroomId,
+          judgeId: hearing.judgeId,
+          assigneeIds: hearing.assigneeIds,
+          coveredBy: getCoveredBy(hearing.assigneeIds)
+        }];
+      }
+
+      return expandHearing(hearing, today).map(occurrence => ({
+        ...base,
+        id: toOccurrenceId(hearing.id, occurrence.key),
+        title: `${caseRecord.caseNumber}: ${occurrence.title}`,
+        notes: occurrence.notes,
+        date: occurrence.date,
+        endDate: occurrence.endDate,
+        allDay: occurrence.allDay,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        status: occurrence.status,
+        sequence: occurrence.sequence,
+        history: occurrence.history,
+        outcome: occurrence.outcome,
+        followUpOf: hearing.followUpOf,
+        courtroomId: occurrence.courtroomId || undefined,
+        judgeId: occurrence.judgeId || undefined,
+        assigneeIds: occurrence.assigneeIds,
+        coveredBy: getCoveredBy(occurrence.assigneeIds),
+        seriesId: hearing.id,
+        occurrenceKey: occurrence.key,
+        recurrence: hearing.recurrence
+      }));
+    });
+};
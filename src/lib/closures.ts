@@ -0,0 +1,113 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import { ClosureRecord, Event } from '@/types/calendar';
+import { getEndDate, occursOn, spansOverlap } from '@/lib/event-span';
+import { ClosedDayCheck, isWeekendDay } from '@/lib/deadline-rules';
+import { getText, parseIcs } from '@/lib/ical/parse';
+import { readOccurrences } from '@/lib/ical/import';
+
+export type ClosureInput = Omit<ClosureRecord, 'id' | 'calendarId'>;
+
+// A closure file as read, before it becomes a calendar; the name comes from the file when it has one
+export interface ClosureFile {
+  name: string;
+  closures: ClosureInput[];
+}
+
+export class ClosureImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClosureImportError';
+  }
+}
+
+export const findClosure = (closures: ClosureRecord[], day: Date) =>
+  closures.find(closure => occursOn(closure, day));
+
+// Weekends and every closure; this is what court-day deadline counting skips
+export const createClosedDayCheck = (closures: ClosureRecord[]): ClosedDayCheck =>
+  day => isWeekendDay(day) || !!findClosure(closures, day);
+
+// Closed days a hearing would land on, e.g. "Thu, Nov 26: Thanksgiving Day". Weekends inside a multi-day
+// hearing are expected, so only a weekend start counts
+export const describeClosedDays = (closures: ClosureRecord[], span: Pick<Event, 'date' | 'endDate' | 'allDay'>) => {
+  const closed = closures
+    .filter(closure => spansOverlap(closure, span))
+    .map(closure => {
+      const first = differenceInCalendarDays(closure.date, span.date) > 0 ? closure.date : span.date;
+      return `${format(first, 'EEE, MMM d')}: ${closure.name}`;
+    });
+  return isWeekendDay(span.date) && !findClosure(closures, span.date)
+    ? [`${format(span.date, 'EEE, MMM d')}: Weekend`, ...closed]
+    : closed;
+};
+
+// All-day iCalendar events end the day after their last day
+const readIcsClosures = (text: string): ClosureFile => {
+  const calendar = parseIcs(text);
+  const name = getText(calendar, 'X-WR-CALNAME');
+
+  const closures = readOccurrences(calendar)
+    .filter(occurrence => !occurrence.cancelled)
+    .map(occurrence => {
+      const date = new Date(occurrence.start.getFullYear(), occurrence.start.getMonth(), occurrence.start.getDate());
+      const last = occurrence.allDay ? addDays(occurrence.end, -1) : occurrence.end;
+      const endDate = differenceInCalendarDays(last, date) > 0 ? last : undefined;
+      return { name: occurrence.summary || 'Court closed', date, endDate };
+    });
+  return { name, closures };
+};
+
+const isoDay = z.string().refine(value => isValid(parseISO(value)), 'Expected a date like 2026-11-26');
+
+const closureSchema = z.object({
+  name: z.string().min(1),
+  date: isoDay,
+  endDate: isoDay.optional()
+});
+
+// Either a bare list of closures or { name, closures }
+const closureFileSchema = z.union([
+  z.array(closureSchema),
+  z.object({ name: z.string().optional(), closures: z.array(closureSchema) })
+]);
+
+const readJsonClosures = (text: string): ClosureFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ClosureImportError('The file is not valid JSON');
+  }
+
+  const parsed = closureFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ClosureImportError(`${issue.path.join('.') || 'file'}: ${issue.message}`);
+  }
+
+  const list = Array.isArray(parsed.data) ? parsed.data : parsed.data.closures;
+  return {
+    name: Array.isArray(parsed.data) ? '' : parsed.data.name ?? '',
+    closures: list.map(closure => ({
+      name: closure.name,
+      date: parseISO(closure.date),
+      endDate: closure.endDate ? parseISO(closure.endDate) : undefined
+    }))
+  };
+};
+
+// Holiday lists come as .ics (court and government calendars) or JSON
+export const readClosureFile = (fileName: string, text: string): ClosureFile => {
+  const file = fileName.toLowerCase().endsWith('.json') ? readJsonClosures(text) : readIcsClosures(text);
+  if (file.closures.length === 0) throw new ClosureImportError('The file has no closures');
+  return file;
+};
+
+// e.g. "Thu, Nov 26, 2026" or "Thu, Dec 24 – Fri, Dec 25, 2026"
+export const formatClosureDays = (closure: ClosureRecord) => {
+  const end = getEndDate(closure);
+  return end === closure.date
+    ? format(closure.date, 'EEE, MMM d, yyyy')
+    : `${format(closure.date, 'EEE, MMM d')} – ${format(end, 'EEE, MMM d, yyyy')}`;
+};
@@ -0,0 +1,115 @@
+import { addDays, startOfDay } from 'date-fns';
+import { Event } from '@/types/calendar';
+import { timeToMinutes } from '@/lib/timeline';
+import { getSpanDays, spansOverlap } from '@/lib/event-span';
+import { isCancelledStatus } from '@/lib/statuses';
+
+// The fields a hearing needs for conflict checks; the id is absent for hearings not saved yet
+export type ConflictCandidate = Pick<
+  Event,
+  'date' | 'endDate' | 'allDay' | 'startTime' | 'endTime' | 'status' | 'courtroomId' | 'judgeId' | 'coveredBy'
+> & {
+  id?: string;
+  type?: Event['type'];
+};
+
+export type ConflictReason = 'overlap' | 'courtroom' | 'judge';
+
+export interface Conflict {
+  event: Event;
+  reasons: ConflictReason[];
+}
+
+// A rule decides whether two overlapping hearings clash and why; resource-based rules plug in here
+type ConflictRule = (candidate: ConflictCandidate, other: Event) => ConflictReason | null;
+
+// Multi-day hearings sit at the same hours each day, so sharing any day and overlapping hours is a clash
+const overlaps = (a: ConflictCandidate, b: ConflictCandidate) =>
+  spansOverlap(a, b) &&
+  timeToMinutes(a.startTime) < timeToMinutes(b.endTime) &&
+  timeToMinutes(b.startTime) < timeToMinutes(a.endTime);
+
+// Someone covering both hearings can't be in two places; a hearing nobody is assigned to could fall to
+// anyone at the firm, so it clashes with everything at the same time
+const timeOverlapRule: ConflictRule = (candidate, other) => {
+  if (!candidate.coveredBy?.length || !other.coveredBy?.length) return 'overlap';
+  return candidate.coveredBy.some(personId => other.coveredBy.includes(personId)) ? 'overlap' : null;
+};
+
+// A courtroom or a judge can only hear one matter at a time, whoever covers the hearings
+const sameCourtroomRule: ConflictRule = (candidate, other) =>
+  candidate.courtroomId && candidate.courtroomId === other.courtroomId ? 'courtroom' : null;
+
+const sameJudgeRule: ConflictRule = (candidate, other) =>
+  candidate.judgeId && candidate.judgeId === other.judgeId ? 'judge' : null;
+
+const rules: ConflictRule[] = [timeOverlapRule, sameCourtroomRule, sameJudgeRule];
+
+export const describeConflictReason = (reason: ConflictReason) => {
+  switch (reason) {
+    case 'overlap': return 'Overlaps in time';
+    case 'courtroom': return 'Same courtroom';
+    case 'judge': return 'Same judge';
+    default: return reason;
+  }
+};
+
+// Returns an error message when the time range itself is invalid
+export const validateTimeRange = (startTime: string, endTime: string): string | null => {
+  if (!startTime || !endTime) return 'Start and end time are required';
+  if (timeToMinutes(endTime) <= timeToMinutes(startTime)) return 'End time must be after start time';
+  return null;
+};
+
+export const findConflicts = (candidate: ConflictCandidate, events: Event[]): Conflict[] => {
+  // Cancelled hearings and deadlines don't occupy the slot
+  const occupiesSlot = (event: ConflictCandidate) => !isCancelledStatus(event.status) && event.type !== 'deadline';
+  if (!occupiesSlot(candidate)) return [];
+
+  return events
+    .filter(other => other.id !== candidate.id && occupiesSlot(other) && overlaps(candidate, other))
+    .map(other => ({
+      event: other,
+      reasons: rules.map(rule => rule(candidate, other)).filter((reason): reason is ConflictReason => !!reason)
+    }))
+    .filter(conflict => conflict.reasons.length > 0)
+    .sort((a, b) => a.event.startTime.localeCompare(b.event.startTime));
+};
+
+// Every day an event covers, keyed by the day's midnight; multi-day hearings land in each of their days
+const groupByDay = (events: Event[]) => {
+  const days = new Map<number, Event[]>();
+  events.forEach(event => {
+    const first = startOfDay(event.date);
+    for (let offset = 0; offset < getSpanDays(event); offset++) {
+      const key = addDays(first, offset).getTime();
+      const dayEvents = days.get(key);
+      if (dayEvents) dayEvents.push(event);
+      else days.set(key, [event]);
+    }
+  });
+  return days;
+};
+
+// Ids of every hearing that conflicts with at least one other, for highlighting in the views. Only hearings
+// sharing a day can clash, so each is checked against its own days rather than the whole calendar
+export const getConflictingEventIds = (events: Event[]): Set<string> => {
+  const ids = new Set<string>();
+
+  events.forEach(event => {
+    if (validateTimeRange(event.startTime, event.endTime)) {
+      ids.add(event.id);
+    }
+  });
+
+  groupByDay(events).forEach(dayEvents => {
+    dayEvents.forEach(event => {
+      findConflicts(event, dayEvents).forEach(conflict => {
+        ids.add(event.id);
+        ids.add(conflict.event.id);
+      });
+    });
+  });
+
+  return ids;
+};
@@ -0,0 +1,108 @@
+import { format } from 'date-fns';
+import { Case, Event } from '@/types/calendar';
+import { stripCasePrefix } from '@/lib/calendar-store';
+import { getEndDate, getSpanDays } from '@/lib/event-span';
+import { countContinuances } from '@/lib/history';
+import { isCancelledStatus } from '@/lib/statuses';
+
+export type CsvLayout = 'hearing' | 'case';
+
+// A case as the list shows it: only the hearings that survived the current filters
+export interface CsvExportGroup {
+  caseData: Case;
+  hearings: Event[];
+}
+
+interface CsvColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => string;
+}
+
+type HearingRow = { caseData: Case; hearing: Event };
+
+const hearingTitle = (event: Event) => stripCasePrefix(event.title, event.caseNumber);
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Tags are flattened into one cell so each case stays on a single row
+const flattenTags = (tags: string[]) => tags.join('; ');
+
+export const HEARING_COLUMNS: CsvColumn<HearingRow>[] = [
+  { key: 'caseNumber', label: 'Case Number', value: ({ caseData }) => caseData.caseNumber },
+  { key: 'caseTitle', label: 'Case Title', value: ({ caseData }) => caseData.title },
+  { key: 'caseStatus', label: 'Case Status', value: ({ caseData }) => caseData.status },
+  { key: 'tags', label: 'Tags', value: ({ caseData }) => flattenTags(caseData.tags) },
+  { key: 'title', label: 'Hearing', value: ({ hearing }) => hearingTitle(hearing) },
+  { key: 'date', label: 'Date', value: ({ hearing }) => formatDate(hearing.date) },
+  { key: 'endDate', label: 'End Date', value: ({ hearing }) => (getSpanDays(hearing) > 1 ? formatDate(getEndDate(hearing)) : '') },
+  { key: 'allDay', label: 'All Day', value: ({ hearing }) => (hearing.allDay ? 'yes' : '') },
+  { key: 'startTime', label: 'Start Time', value: ({ hearing }) => hearing.startTime },
+  { key: 'endTime', label: 'End Time', value: ({ hearing }) => hearing.endTime },
+  { key: 'status', label: 'Status', value: ({ hearing }) => hearing.status },
+  { key: 'notes', label: 'Notes', value: ({ hearing }) => hearing.notes }
+];
+
+export const CASE_COLUMNS: CsvColumn<CsvExportGroup>[] = [
+  { key: 'caseNumber', label: 'Case Number', value: ({ caseData }) => caseData.caseNumber },
+  { key: 'caseTitle', label: 'Case Title', value: ({ caseData }) => caseData.title },
+  { key: 'caseStatus', label: 'Case Status', value: ({ caseData }) => caseData.status },
+  { key: 'description', label: 'Description', value: ({ caseData }) => caseData.description },
+  { key: 'tags', label: 'Tags', value: ({ caseData }) => flattenTags(caseData.tags) },
+  { key: 'hearingCount', label: 'Hearings', value: ({ hearings }) => String(hearings.length) },
+  { key: 'continuances', label: 'Continuances', value: ({ caseData }) => String(countContinuances(caseData.hearings)) },
+  {
+    key: 'nextHearing',
+    label: 'Next Hearing',
+    value: ({ hearings }) => {
+      const today = new Date(new Date().setHours(0, 0, 0, 0));
+      const next = hearings
+        .filter(hearing => !isCancelledStatus(hearing.status) && hearing.date >= today)
+        .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime))[0];
+      return next ? `${formatDate(next.date)} ${next.startTime}` : '';
+    }
+  },
+  {
+    key: 'hearingList',
+    label: 'Hearing Schedule',
+    value: ({ hearings }) =>
+      hearings.map(hearing => `${formatDate(hearing.date)} ${hearing.startTime} ${hearingTitle(hearing)} (${hearing.status})`).join('; ')
+  }
+];
+
+export const getCsvColumns = (layout: CsvLayout) => (layout === 'hearing' ? HEARING_COLUMNS : CASE_COLUMNS);
+
+export interface CsvExportOptions {
+  layout: CsvLayout;
+  // Column keys to include, in table order; all columns when omitted
+  columns?: string[];
+  // Prepends a UTF-8 byte order mark so Excel doesn't misread accented characters
+  excel?: boolean;
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string) => {
+  const safe = FORMULA_PREFIX.test(value) && !/^-?\d/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toRows = <T>(items: T[], columns: CsvColumn<T>[]) => [
+  columns.map(column => column.label),
+  ...items.map(item => columns.map(column => column.value(item)))
+];
+
+export const exportToCsv = (groups: CsvExportGroup[], { layout, columns, excel }: CsvExportOptions) => {
+  const pick = <T>(all: CsvColumn<T>[]) => (columns ? all.filter(column => columns.includes(column.key)) : all);
+
+  const rows = layout === 'hearing'
+    ? toRows(
+        groups.flatMap(({ caseData, hearings }) => hearings.map(hearing => ({ caseData, hearing }))),
+        pick(HEARING_COLUMNS)
+      )
+    : toRows(groups, pick(CASE_COLUMNS));
+
+  const csv = rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+  return excel ? `\uFEFF${csv}` : csv;
+};
@@ -0,0 +1,198 @@
+import { format, isValid, parse } from 'date-fns';
+import { z } from 'zod';
+import { Case, Hearing } from '@/types/calendar';
+import { createId } from '@/lib/utils';
+import { ALL_DAY_END, ALL_DAY_START } from '@/lib/event-span';
+import { INITIAL_STATUS, parseStatus } from '@/lib/statuses';
+import { CsvTable } from './parse';
+
+export const CSV_FIELDS = [
+  { key: 'caseNumber', label: 'Case number', required: true, aliases: ['case number', 'case no', 'case #', 'case', 'docket', 'docket number'] },
+  { key: 'title', label: 'Hearing title', required: true, aliases: ['title', 'hearing', 'hearing title', 'event', 'description'] },
+  { key: 'date', label: 'Date', required: true, aliases: ['date', 'hearing date', 'day', 'start date'] },
+  { key: 'endDate', label: 'End date', required: false, aliases: ['end date', 'last day', 'through'] },
+  { key: 'allDay', label: 'All day', required: false, aliases: ['all day', 'allday'] },
+  { key: 'startTime', label: 'Start time', required: true, aliases: ['start', 'start time', 'time', 'from'] },
+  { key: 'endTime', label: 'End time', required: false, aliases: ['end', 'end time', 'to', 'until'] },
+  { key: 'status', label: 'Status', required: false, aliases: ['status', 'state'] },
+  { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments', 'remarks'] },
+  { key: 'tags', label: 'Tags', required: false, aliases: ['tags', 'tag', 'labels', 'category'] }
+] as const;
+
+export type CsvField = typeof CSV_FIELDS[number]['key'];
+
+// Field -> column index; unmapped fields are left out
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+// Hearings without an end time in the sheet get an hour
+const DEFAULT_DURATION_MINUTES = 60;
+
+// "yyyy" happily reads "26" as the year 26, so such dates are rejected and fall through to "yy"
+const DATE_FORMATS = ['yyyy-MM-dd', 'M/d/yyyy', 'M/d/yy', 'd.M.yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'd MMM yyyy'];
+const TIME_FORMATS = ['HH:mm', 'H:mm', 'h:mm a', 'h:mma', 'h a', 'ha', 'HH:mm:ss'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').trim();
+
+// Maps columns by header name so common clerk exports need no manual mapping
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex((header, i) =>
+      !Object.values(mapping).includes(i) && (field.aliases as readonly string[]).includes(header)
+    );
+    if (index >= 0) mapping[field.key] = index;
+  });
+
+  return mapping;
+};
+
+const parseWithFormats = (value: string, formats: string[], accept = (_parsed: Date) => true) => {
+  for (const candidate of formats) {
+    const parsed = parse(value, candidate, new Date());
+    if (isValid(parsed) && accept(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+const dateSchema = z.string().trim().min(1, 'Date is required').transform((value, ctx) => {
+  const parsed = parseWithFormats(value, DATE_FORMATS, date => date.getFullYear() >= 1900);
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unrecognized date "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const timeSchema = (label: string) => z.string().trim().transform((value, ctx) => {
+  if (!value) return '';
+  const parsed = parseWithFormats(value.toUpperCase(), TIME_FORMATS);
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unrecognized ${label} "${value}"` });
+    return z.NEVER;
+  }
+  return format(parsed, 'HH:mm');
+});
+
+const optionalDateSchema = z.string().trim().transform((value, ctx) => {
+  if (!value) return undefined;
+  const parsed = parseWithFormats(value, DATE_FORMATS, date => date.getFullYear() >= 1900);
+  if (!parsed) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unrecognized end date "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+const flagSchema = z.string().trim().toLowerCase().transform(value => ['yes', 'y', 'true', '1', 'x'].includes(value));
+
+// Status ids or labels from the workflow, plus the older New / Rescheduled / Cancelled values
+const statusSchema = z.string().trim().transform((value, ctx) => {
+  if (!value) return INITIAL_STATUS;
+  const status = parseStatus(value);
+  if (status) return status;
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status "${value}"` });
+  return z.NEVER;
+});
+
+const addMinutes = (time: string, minutes: number) => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const rowSchema = z.object({
+  caseNumber: z.string().trim().min(1, 'Case number is required'),
+  title: z.string().trim().min(1, 'Hearing title is required'),
+  date: dateSchema,
+  endDate: optionalDateSchema,
+  allDay: flagSchema,
+  startTime: timeSchema('start time'),
+  endTime: timeSchema('end time'),
+  status: statusSchema,
+  notes: z.string().trim(),
+  tags: z.string().transform(value => value.split(/[;,|]/).map(tag => tag.trim()).filter(Boolean))
+}).transform((row, ctx) => {
+  if (row.endDate && row.endDate < row.date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End date must be on or after the date', path: ['endDate'] });
+    return z.NEVER;
+  }
+  if (row.allDay) return { ...row, startTime: ALL_DAY_START, endTime: ALL_DAY_END };
+  if (!row.startTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Start time is required', path: ['startTime'] });
+    return z.NEVER;
+  }
+
+  const endTime = row.endTime || addMinutes(row.startTime, DEFAULT_DURATION_MINUTES);
+  if (endTime <= row.startTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'End time must be after start time', path: ['endTime'] });
+    return z.NEVER;
+  }
+  return { ...row, endTime };
+});
+
+export type CsvRow = z.infer<typeof rowSchema>;
+
+export interface CsvRowError {
+  // 1-based line of the file the row starts on
+  line: number;
+  messages: string[];
+}
+
+export interface CsvImportResult {
+  cases: Case[];
+  rowCount: number;
+  errors: CsvRowError[];
+}
+
+// Validates each mapped row and groups the valid ones into cases by case number
+export const buildCsvImport = (table: CsvTable, mapping: ColumnMapping): CsvImportResult => {
+  const errors: CsvRowError[] = [];
+  const casesByNumber = new Map<string, Case>();
+
+  table.rows.forEach(({ cells, line }) => {
+    const raw = Object.fromEntries(
+      CSV_FIELDS.map(field => [field.key, mapping[field.key] !== undefined ? cells[mapping[field.key]] ?? '' : ''])
+    );
+    const result = rowSchema.safeParse(raw);
+    if (!result.success) {
+      errors.push({ line, messages: result.error.issues.map(issue => issue.message) });
+      return;
+    }
+
+    const row = result.data;
+    let caseItem = casesByNumber.get(row.caseNumber);
+    if (!caseItem) {
+      caseItem = {
+        id: createId('case'),
+        caseNumber: row.caseNumber,
+        title: `Case ${row.caseNumber}`,
+        description: '',
+        tags: [],
+        status: 'open',
+        hearings: []
+      };
+      casesByNumber.set(row.caseNumber, caseItem);
+    }
+
+    row.tags.forEach(tag => {
+      if (!caseItem.tags.includes(tag)) caseItem.tags.push(tag);
+    });
+
+    const hearing: Hearing = {
+      id: createId('hearing'),
+      title: row.title,
+      notes: row.notes,
+      date: row.date,
+      endDate: row.endDate,
+      allDay: row.allDay || undefined,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      status: row.status
+    };
+    caseItem.hearings.push(hearing);
+  });
+
+  return { cases: [...casesByNumber.values()], rowCount: table.rows.length, errors };
+};
@@ -0,0 +1,91 @@
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export type CsvDelimiter = typeof CSV_DELIMITERS[number];
+
+export interface CsvRecord {
+  cells: string[];
+  // 1-based line of the file the record starts on; quoted line breaks make a record span several lines
+  line: number;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: CsvRecord[];
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter: CsvDelimiter): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // CRLF counts as one line break
+    if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      record.push(field);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  return records.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+};
+
+// Picks the delimiter that splits the first lines into the most consistent, widest columns
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n');
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach(delimiter => {
+    const widths = parseCsv(sample, delimiter).map(({ cells }) => cells.length);
+    if (widths.length === 0) return;
+    const consistent = widths.filter(width => width === widths[0]).length / widths.length;
+    const score = widths[0] > 1 ? widths[0] * consistent : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+export const readCsvTable = (text: string, delimiter: CsvDelimiter): CsvTable => {
+  const [header, ...rows] = parseCsv(text, delimiter);
+  return { headers: (header?.cells ?? []).map(cell => cell.trim()), rows };
+};
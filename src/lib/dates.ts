@@ -0,0 +1,6 @@
+import { format, parse } from 'date-fns';
+
+// <input type="date"> values are local calendar days; going through toISOString() would shift them by the UTC offset
+export const toDateInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const fromDateInputValue = (value: string) => parse(value, 'yyyy-MM-dd', new Date());
@@ -0,0 +1,76 @@
+import { addDays } from 'date-fns';
+import { DeadlineRule, DeadlineRuleSet } from '@/types/calendar';
+
+// Whether the court is closed on a day; deadlines never land on one and court days skip them
+export type ClosedDayCheck = (day: Date) => boolean;
+
+export const isWeekendDay: ClosedDayCheck = day => day.getDay() === 0 || day.getDay() === 6;
+
+// The rule sets offered for a hearing; add a set here to make it available everywhere
+export const DEADLINE_RULE_SETS: DeadlineRuleSet[] = [
+  {
+    id: 'motion',
+    name: 'Noticed motion',
+    description: 'Opposition and reply briefing, and the proposed order after the ruling',
+    rules: [
+      { id: 'opposition', name: 'Opposition due', offset: -9, unit: 'court', roll: 'backward' },
+      { id: 'reply', name: 'Reply due', offset: -5, unit: 'court', roll: 'backward' },
+      { id: 'proposed-order', name: 'Proposed order due', offset: 10, unit: 'calendar', roll: 'forward' }
+    ]
+  },
+  {
+    id: 'trial',
+    name: 'Trial',
+    description: 'Pretrial filings before the first day of trial',
+    rules: [
+      { id: 'motions-in-limine', name: 'Motions in limine due', offset: -15, unit: 'court', roll: 'backward' },
+      { id: 'exhibit-list', name: 'Exhibit and witness lists due', offset: -10, unit: 'court', roll: 'backward' },
+      { id: 'trial-brief', name: 'Trial brief due', offset: -5, unit: 'court', roll: 'backward' }
+    ]
+  },
+  {
+    id: 'judgment',
+    name: 'Judgment or final order',
+    description: 'Post-judgment motions and appeal',
+    rules: [
+      { id: 'new-trial', name: 'Motion for new trial due', offset: 15, unit: 'calendar', roll: 'forward' },
+      { id: 'notice-of-appeal', name: 'Notice of appeal due', offset: 30, unit: 'calendar', roll: 'forward' }
+    ]
+  }
+];
+
+export const findRuleSet = (ruleSetId: string) => DEADLINE_RULE_SETS.find(ruleSet => ruleSet.id === ruleSetId);
+
+export const findDeadlineRule = (ruleSetId: string, ruleId: string) =>
+  findRuleSet(ruleSetId)?.rules.find(rule => rule.id === ruleId);
+
+// A year of closures in a row means the closed-day check is wrong; give up rather than loop forever
+const MAX_CLOSED_RUN = 366;
+
+const rollToOpenDay = (day: Date, roll: DeadlineRule['roll'], isClosed: ClosedDayCheck) => {
+  let rolled = day;
+  for (let i = 0; i < MAX_CLOSED_RUN && isClosed(rolled); i++) {
+    rolled = addDays(rolled, roll === 'forward' ? 1 : -1);
+  }
+  return rolled;
+};
+
+// Calendar days count every day and then roll off a closed day; court days only count open days
+export const computeDeadlineDate = (triggerDate: Date, rule: DeadlineRule, isClosed: ClosedDayCheck = isWeekendDay) => {
+  if (rule.unit === 'calendar') return rollToOpenDay(addDays(triggerDate, rule.offset), rule.roll, isClosed);
+
+  const step = rule.offset < 0 ? -1 : 1;
+  let day = triggerDate;
+  for (let remaining = Math.abs(rule.offset); remaining > 0;) {
+    day = addDays(day, step);
+    if (!isClosed(day)) remaining--;
+  }
+  return rollToOpenDay(day, rule.roll, isClosed);
+};
+
+// e.g. "9 court days before the hearing" or "30 calendar days after the hearing"
+export const describeDeadlineRule = (rule: DeadlineRule) => {
+  if (rule.offset === 0) return 'On the hearing day';
+  const days = Math.abs(rule.offset);
+  return `${days} ${rule.unit} day${days !== 1 ? 's' : ''} ${rule.offset < 0 ? 'before' : 'after'} the hearing`;
+};
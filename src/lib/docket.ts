@@ -0,0 +1,58 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import { Case, Event } from '@/types/calendar';
+import { formatSpanDay, occursOn } from '@/lib/event-span';
+import { isCancelledStatus } from '@/lib/statuses';
+
+export type DocketRange = 'day' | 'week';
+
+export interface DocketOptions {
+  date: Date;
+  range: DocketRange;
+  includeCancelled: boolean;
+}
+
+export interface DocketEntry {
+  event: Event;
+  caseTitle: string;
+  // "Day 2 of 4" for multi-day hearings
+  spanDay: string;
+}
+
+export interface DocketDay {
+  date: Date;
+  entries: DocketEntry[];
+}
+
+// Court days follow WeeklyView (Monday to Friday); weekend days only appear when something is scheduled
+const getDocketDates = (events: Event[], { date, range }: DocketOptions) => {
+  if (range === 'day') return [date];
+
+  const monday = startOfWeek(date, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i))
+    .filter((day, i) => i < 5 || events.some(event => occursOn(event, day)));
+};
+
+// Hearings grouped per day in chronological order, the way the printed docket lists them; multi-day hearings
+// are listed on each day they sit
+export const buildDocket = (events: Event[], cases: Case[], options: DocketOptions): DocketDay[] => {
+  const visible = events.filter(event => options.includeCancelled || !isCancelledStatus(event.status));
+
+  return getDocketDates(visible, options).map(day => ({
+    date: day,
+    entries: visible
+      .filter(event => occursOn(event, day))
+      .sort((a, b) => a.startTime.localeCompare(b.startTime) || a.caseNumber.localeCompare(b.caseNumber))
+      .map(event => ({
+        event,
+        caseTitle: cases.find(caseItem => caseItem.id === event.parentId)?.title ?? '',
+        spanDay: formatSpanDay(event, day)
+      }))
+  }));
+};
+
+export const getDocketTitle = ({ date, range }: DocketOptions) => {
+  if (range === 'day') return `Docket for ${format(date, 'EEEE, MMMM d, yyyy')}`;
+
+  const monday = startOfWeek(date, { weekStartsOn: 1 });
+  return `Docket for the week of ${format(monday, 'MMM d')} – ${format(addDays(monday, 4), 'MMM d, yyyy')}`;
+};
@@ -0,0 +1,79 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { Event } from '@/types/calendar';
+import { formatTime12Hour } from '@/lib/timeline';
+
+type Span = Pick<Event, 'date' | 'endDate' | 'allDay'>;
+
+// All-day hearings keep these times, so time-based checks treat them as filling the whole day
+export const ALL_DAY_START = '00:00';
+export const ALL_DAY_END = '23:59';
+
+// Last day the event covers; an end date on or before the start means a single-day event
+export const getEndDate = (event: Span) =>
+  event.endDate && differenceInCalendarDays(event.endDate, event.date) > 0 ? event.endDate : event.date;
+
+export const getSpanDays = (event: Span) => differenceInCalendarDays(getEndDate(event), event.date) + 1;
+
+// Spanning events render as bars across day columns instead of cards within one day
+export const isSpanning = (event: Span) => !!event.allDay || getSpanDays(event) > 1;
+
+export const occursOn = (event: Span, day: Date) =>
+  differenceInCalendarDays(day, event.date) >= 0 && differenceInCalendarDays(getEndDate(event), day) >= 0;
+
+export const spansOverlap = (a: Span, b: Span) =>
+  differenceInCalendarDays(getEndDate(b), a.date) >= 0 && differenceInCalendarDays(getEndDate(a), b.date) >= 0;
+
+// Multi-day hearings keep the same hours on every day, e.g. a trial sitting 9:00 AM - 5:00 PM
+export const formatEventTimes = (event: Pick<Event, 'startTime' | 'endTime' | 'allDay'>) =>
+  event.allDay ? 'All day' : `${formatTime12Hour(event.startTime)} - ${formatTime12Hour(event.endTime)}`;
+
+// Where a day falls within a multi-day hearing, e.g. "Day 2 of 4"; empty for single-day hearings
+export const formatSpanDay = (event: Span, day: Date) => {
+  const total = getSpanDays(event);
+  return total > 1 ? `Day ${differenceInCalendarDays(day, event.date) + 1} of ${total}` : '';
+};
+
+export interface SpanBar {
+  event: Event;
+  // Columns the bar covers within the visible days, inclusive
+  startIndex: number;
+  endIndex: number;
+  row: number;
+  // The event starts before or ends after the visible days
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// Places spanning events over consecutive day columns; bars that share a column are stacked in separate rows
+export const layoutSpanBars = (events: Event[], days: Date[]): SpanBar[] => {
+  const rowEnds: number[] = [];
+
+  return events
+    .filter(isSpanning)
+    .map(event => {
+      const covered = days.map((day, index) => (occursOn(event, day) ? index : -1)).filter(index => index >= 0);
+      return { event, covered };
+    })
+    .filter(({ covered }) => covered.length > 0)
+    .sort((a, b) => a.covered[0] - b.covered[0] || b.covered.length - a.covered.length)
+    .map(({ event, covered }) => {
+      const startIndex = covered[0];
+      const endIndex = covered[covered.length - 1];
+      let row = rowEnds.findIndex(end => end < startIndex);
+      if (row === -1) {
+        row = rowEnds.length;
+        rowEnds.push(endIndex);
+      } else {
+        rowEnds[row] = endIndex;
+      }
+
+      return {
+        event,
+        startIndex,
+        endIndex,
+        row,
+        continuesBefore: differenceInCalendarDays(days[startIndex], event.date) > 0,
+        continuesAfter: differenceInCalendarDays(getEndDate(event), days[endIndex]) > 0
+      };
+    });
+};
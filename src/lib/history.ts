@@ -0,0 +1,65 @@
+import { format, isSameDay } from 'date-fns';
+import { Hearing, HearingSlot, RescheduleEntry, RescheduleReason } from '@/types/calendar';
+import { formatEventTimes, getEndDate, getSpanDays } from '@/lib/event-span';
+
+// What the person moving a hearing says about it; hearings moved without one are recorded as "other"
+export interface HearingChange {
+  reason: RescheduleReason;
+  note?: string;
+}
+
+export const RESCHEDULE_REASONS: { value: RescheduleReason; label: string }[] = [
+  { value: 'continuance', label: 'Continuance' },
+  { value: 'court', label: 'Court / judge availability' },
+  { value: 'conflict', label: 'Scheduling conflict' },
+  { value: 'counsel', label: 'Opposing counsel request' },
+  { value: 'client', label: 'Client request' },
+  { value: 'other', label: 'Other' }
+];
+
+export const describeReason = (reason: RescheduleReason) =>
+  RESCHEDULE_REASONS.find(option => option.value === reason)?.label ?? reason;
+
+export const toSlot = ({ date, endDate, allDay, startTime, endTime }: HearingSlot): HearingSlot =>
+  ({ date, endDate, allDay, startTime, endTime });
+
+// Dates are compared as calendar days, since older records may carry a time of day
+export const isSameHearingSlot = (a: HearingSlot, b: HearingSlot) =>
+  isSameDay(a.date, b.date) &&
+  isSameDay(getEndDate(a), getEndDate(b)) &&
+  !!a.allDay === !!b.allDay &&
+  a.startTime === b.startTime &&
+  a.endTime === b.endTime;
+
+export const createRescheduleEntry = (
+  from: HearingSlot,
+  to: HearingSlot,
+  change: HearingChange | undefined,
+  changedBy: string
+): RescheduleEntry => ({
+  from: toSlot(from),
+  to: toSlot(to),
+  reason: change?.reason ?? 'other',
+  note: change?.note?.trim() || undefined,
+  changedBy,
+  changedAt: new Date()
+});
+
+// e.g. "Mon, Jun 2, 9:00 AM - 10:00 AM" or "Mon, Jun 2 – Wed, Jun 4, All day"
+export const formatSlot = (slot: HearingSlot) => {
+  const day = (date: Date) => format(date, 'EEE, MMM d, yyyy');
+  const days = getSpanDays(slot) > 1 ? `${day(slot.date)} – ${day(getEndDate(slot))}` : day(slot.date);
+  return `${days}, ${formatEventTimes(slot)}`;
+};
+
+const isContinuance = (entry: RescheduleEntry) => entry.reason === 'continuance';
+
+// Continuances across a case's hearings, including single occurrences of recurring ones
+export const countContinuances = (hearings: Pick<Hearing, 'history' | 'exceptions'>[]) =>
+  hearings.reduce((total, hearing) =>
+    total +
+    (hearing.history ?? []).filter(isContinuance).length +
+    Object.values(hearing.exceptions ?? {}).reduce(
+      (sum, exception) => sum + (exception.history ?? []).filter(isContinuance).length,
+      0
+    ), 0);
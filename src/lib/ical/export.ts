@@ -0,0 +1,98 @@
+import { addDays } from 'date-fns';
+import { Case, Event } from '@/types/calendar';
+import { getEndDate, getSpanDays } from '@/lib/event-span';
+import { isCancelledStatus } from '@/lib/statuses';
+import {
+  combineDateAndTime,
+  escapeText,
+  foldLine,
+  formatDateValue,
+  formatLocalDateTime,
+  formatUtcDateTime,
+  PRODUCT_ID,
+  UID_DOMAIN
+} from './format';
+
+export interface IcsExportOptions {
+  // Minutes before the start; no VALARM when omitted
+  reminderMinutes?: number;
+  calendarName?: string;
+  // Used to add case titles to the description
+  cases?: Case[];
+}
+
+// Derived from the hearing id only, so re-importing an export updates events instead of duplicating them
+export const hearingUid = (hearingId: string) => `${hearingId}@${UID_DOMAIN}`;
+
+const buildDescription = (event: Event, caseItem?: Case) => {
+  const lines = [`Case: ${event.caseNumber}${caseItem ? ` - ${caseItem.title}` : ''}`];
+  if (event.notes) lines.push(`Notes: ${event.notes}`);
+  return lines.join('\n');
+};
+
+// All-day events end on the day after their last day (DTEND is exclusive); multi-day timed events sit the same
+// hours each day, so they repeat the first day's slot daily instead of running as one block through the nights.
+// Those are written in floating local time, so the hours hold on days after a DST change
+const buildTimes = (event: Event) => {
+  if (event.allDay) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(getEndDate(event), 1))}`
+    ];
+  }
+
+  const spanDays = getSpanDays(event);
+  const start = combineDateAndTime(event.date, event.startTime);
+  const end = combineDateAndTime(event.date, event.endTime);
+  if (spanDays === 1) return [`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`];
+
+  return [
+    `DTSTART:${formatLocalDateTime(start)}`,
+    `DTEND:${formatLocalDateTime(end)}`,
+    `RRULE:FREQ=DAILY;COUNT=${spanDays}`
+  ];
+};
+
+const buildEvent = (event: Event, options: IcsExportOptions, stamp: string) => {
+  const caseItem = options.cases?.find(c => c.id === event.parentId);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${hearingUid(event.id)}`,
+    `DTSTAMP:${stamp}`,
+    ...buildTimes(event),
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(buildDescription(event, caseItem))}`,
+    `CATEGORIES:${escapeText(event.type)}`,
+    `STATUS:${isCancelledStatus(event.status) ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SEQUENCE:${event.sequence ?? 0}`
+  ];
+
+  if (options.reminderMinutes && !isCancelledStatus(event.status)) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:-PT${options.reminderMinutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const exportToIcs = (events: Event[], options: IcsExportOptions = {}) => {
+  const stamp = formatUtcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+    ...events.flatMap(event => buildEvent(event, options, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,64 @@
+// Low-level RFC 5545 helpers shared by export and import
+
+export const PRODUCT_ID = '-//Case Calendar//Hearings//EN';
+export const UID_DOMAIN = 'case-calendar';
+
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Content lines longer than 75 octets are folded with CRLF followed by a single space
+export const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const unfoldLines = (text: string) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// UTC date-time, e.g. 20240501T130000Z
+export const formatUtcDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Floating local date-time, e.g. 20240501T090000; keeps the same wall-clock hours across a DST change
+export const formatLocalDateTime = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+  `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+// Floating calendar date for all-day events, e.g. 20240501
+export const formatDateValue = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+// Combines a hearing's calendar day with an HH:mm time in local time
+export const combineDateAndTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const combined = new Date(date);
+  combined.setHours(hours, minutes || 0, 0, 0);
+  return combined;
+};
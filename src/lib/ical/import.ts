@@ -0,0 +1,318 @@
+import { format } from 'date-fns';
+import { Event } from '@/types/calendar';
+import { HearingInput } from '@/lib/calendar-store';
+import { ALL_DAY_END, ALL_DAY_START, getEndDate } from '@/lib/event-span';
+import { getCancelledStatus, getMovedStatus, INITIAL_STATUS, isCancelledStatus } from '@/lib/statuses';
+import { UID_DOMAIN } from './format';
+import {
+  getProperty,
+  getText,
+  IcsComponent,
+  IcsDateTime,
+  IcsParseError,
+  parseDateTime,
+  parseDuration,
+  parseIcs,
+  resolveDateTime
+} from './parse';
+import { expandRRule, parseRRule, RecurrenceRule } from './rrule';
+
+// Matches the "2024-001: Initial Hearing" titles EventForm produces; group 1 is the case number, group 2 the title
+export const DEFAULT_CASE_PATTERN = '^(\\d{4}-\\d+):\\s*(.*)$';
+
+// Timed events without DTEND or DURATION get a usable slot instead of a zero-length one
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+export interface IcsImportOptions {
+  casePattern?: string;
+  // Used when neither SUMMARY nor DESCRIPTION names a case
+  defaultCaseNumber?: string;
+}
+
+interface IcsOccurrence {
+  uid: string;
+  // Original start of a recurring occurrence; identifies it across RECURRENCE-ID overrides
+  recurrenceId?: Date;
+  summary: string;
+  description: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  cancelled: boolean;
+  // Our own exports mark deadlines with CATEGORIES:deadline
+  deadline: boolean;
+}
+
+export type ImportKind = 'new' | 'updated' | 'duplicate';
+
+export interface ImportItem {
+  kind: ImportKind;
+  hearingId: string;
+  input: HearingInput;
+  // Field names that differ from the existing hearing, for updates
+  changes: string[];
+  existing?: Event;
+}
+
+export interface ImportPreview {
+  items: ImportItem[];
+  skipped: { summary: string; reason: string }[];
+}
+
+const readDateTime = (component: IcsComponent, name: string): IcsDateTime | undefined => {
+  const property = getProperty(component, name);
+  return property ? parseDateTime(property.value, property.params) : undefined;
+};
+
+// EXDATE may repeat and hold comma-separated values
+const readExceptionDates = (component: IcsComponent) =>
+  component.properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseDateTime(value, property.params)))
+    .map(dateTime => resolveDateTime(dateTime).getTime());
+
+const buildOccurrence = (
+  component: IcsComponent,
+  start: IcsDateTime,
+  durationMs: number,
+  cancelled: boolean,
+  recurrenceId?: Date
+): IcsOccurrence => {
+  const startDate = resolveDateTime(start);
+  return {
+    uid: getText(component, 'UID'),
+    recurrenceId,
+    summary: getText(component, 'SUMMARY'),
+    description: getText(component, 'DESCRIPTION'),
+    start: startDate,
+    end: new Date(startDate.getTime() + durationMs),
+    allDay: start.allDay,
+    cancelled: cancelled || getText(component, 'STATUS').toUpperCase() === 'CANCELLED',
+    deadline: getText(component, 'CATEGORIES').toLowerCase().split(',').includes('deadline')
+  };
+};
+
+const getDurationMs = (component: IcsComponent, start: IcsDateTime) => {
+  const end = readDateTime(component, 'DTEND');
+  if (end) return resolveDateTime(end).getTime() - resolveDateTime(start).getTime();
+
+  const duration = getProperty(component, 'DURATION');
+  if (duration) return parseDuration(duration.value);
+
+  return start.allDay ? 24 * 60 * 60 * 1000 : DEFAULT_DURATION_MS;
+};
+
+// Our exports write a multi-day timed hearing as a daily repeat of its hours, e.g. 9:00 - 12:00 three days running
+const isExportedSpan = (component: IcsComponent, rule: RecurrenceRule) =>
+  getText(component, 'UID').endsWith(`@${UID_DOMAIN}`) &&
+  !getProperty(component, 'EXDATE') &&
+  rule.freq === 'DAILY' &&
+  rule.interval === 1 &&
+  !!rule.count &&
+  !rule.until;
+
+// Expands every VEVENT into concrete occurrences, applying RRULE, EXDATE and RECURRENCE-ID overrides
+export const readOccurrences = (calendar: IcsComponent): IcsOccurrence[] => {
+  const cancelAll = getText(calendar, 'METHOD').toUpperCase() === 'CANCEL';
+  const events = calendar.components.filter(component => component.type === 'VEVENT');
+  const masters = events.filter(event => !getProperty(event, 'RECURRENCE-ID'));
+  const overrides = events.filter(event => getProperty(event, 'RECURRENCE-ID'));
+
+  const occurrences: IcsOccurrence[] = [];
+  masters.forEach(event => {
+    const start = readDateTime(event, 'DTSTART');
+    if (!start) throw new IcsParseError(`Event "${getText(event, 'SUMMARY')}" has no DTSTART`);
+    const durationMs = getDurationMs(event, start);
+
+    const rrule = getProperty(event, 'RRULE');
+    if (!rrule) {
+      occurrences.push(buildOccurrence(event, start, durationMs, cancelAll));
+      return;
+    }
+
+    const rule = parseRRule(rrule.value);
+    if (isExportedSpan(event, rule)) {
+      // Read back as one hearing running from the first day's start to the last day's end
+      const starts = expandRRule(start, rule);
+      const lastStart = resolveDateTime(starts[starts.length - 1]);
+      const spanMs = lastStart.getTime() - resolveDateTime(start).getTime() + durationMs;
+      occurrences.push(buildOccurrence(event, start, spanMs, cancelAll));
+      return;
+    }
+
+    const exceptions = readExceptionDates(event);
+    expandRRule(start, rule)
+      .filter(occurrenceStart => !exceptions.includes(resolveDateTime(occurrenceStart).getTime()))
+      .forEach(occurrenceStart => {
+        occurrences.push(
+          buildOccurrence(event, occurrenceStart, durationMs, cancelAll, resolveDateTime(occurrenceStart))
+        );
+      });
+  });
+
+  overrides.forEach(event => {
+    const uid = getText(event, 'UID');
+    const recurrenceId = resolveDateTime(readDateTime(event, 'RECURRENCE-ID'));
+    const start = readDateTime(event, 'DTSTART');
+    const index = occurrences.findIndex(
+      occurrence => occurrence.uid === uid && occurrence.recurrenceId?.getTime() === recurrenceId.getTime()
+    );
+
+    // Overrides often only carry STATUS:CANCELLED, so fall back to the occurrence they replace
+    const replaced = index >= 0 ? occurrences[index] : undefined;
+    const override = start
+      ? buildOccurrence(event, start, getDurationMs(event, start), cancelAll, recurrenceId)
+      : { ...replaced, cancelled: cancelAll || getText(event, 'STATUS').toUpperCase() === 'CANCELLED' };
+    if (!override?.start) return;
+
+    const merged: IcsOccurrence = {
+      ...override,
+      summary: override.summary || replaced?.summary || '',
+      description: override.description || replaced?.description || ''
+    };
+    if (index >= 0) occurrences[index] = merged;
+    else occurrences.push(merged);
+  });
+
+  return occurrences;
+};
+
+const hashString = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Our own exports carry the hearing id in the UID; anything else gets a stable id derived from it
+const toHearingId = (occurrence: IcsOccurrence) => {
+  const suffix = `@${UID_DOMAIN}`;
+  if (occurrence.uid.endsWith(suffix) && !occurrence.recurrenceId) {
+    return occurrence.uid.slice(0, -suffix.length);
+  }
+  const base = `ics-${hashString(occurrence.uid || `${occurrence.summary}|${occurrence.start.getTime()}`)}`;
+  return occurrence.recurrenceId ? `${base}-${format(occurrence.recurrenceId, 'yyyyMMdd')}` : base;
+};
+
+// Splits our exported "Case: X - title\nNotes: ..." description back into its parts
+const parseDescription = (description: string) => {
+  const caseLine = description.match(/^Case:\s*(\S+)/m);
+  const notesLine = description.match(/^Notes:\s*([\s\S]*)$/m);
+  if (!caseLine) return { caseNumber: undefined, notes: description.trim() };
+  return { caseNumber: caseLine[1], notes: notesLine ? notesLine[1].trim() : '' };
+};
+
+const toHearingInput = (occurrence: IcsOccurrence, casePattern: RegExp, defaultCaseNumber: string) => {
+  const description = parseDescription(occurrence.description);
+  const summaryMatch = occurrence.summary.match(casePattern);
+  const caseNumber = (summaryMatch?.[1] ?? description.caseNumber ?? defaultCaseNumber).trim();
+  if (!caseNumber) return undefined;
+
+  const title = (summaryMatch ? summaryMatch[2] ?? '' : occurrence.summary).trim() || 'Hearing';
+  const { start, end } = occurrence;
+  const startDay = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  // All-day DTEND is the day after the last day; a timed event ending at midnight also ends the day before
+  const lastInstant = occurrence.allDay || format(end, 'HH:mm') === '00:00' ? new Date(end.getTime() - 1) : end;
+  const endDay = new Date(lastInstant.getFullYear(), lastInstant.getMonth(), lastInstant.getDate());
+  const startTime = occurrence.allDay ? ALL_DAY_START : format(start, 'HH:mm');
+  const endTime = occurrence.allDay ? ALL_DAY_END : format(lastInstant, 'HH:mm');
+
+  const input: HearingInput = {
+    title: `${caseNumber}: ${title}`,
+    description: '',
+    notes: description.notes,
+    date: startDay,
+    endDate: endDay > startDay ? endDay : undefined,
+    allDay: occurrence.allDay || undefined,
+    startTime,
+    // Multi-day events keep the same hours each day, so an overnight end time can't carry over
+    endTime: endTime > startTime ? endTime : ALL_DAY_END,
+    type: occurrence.deadline ? 'deadline' : 'hearing',
+    status: occurrence.cancelled ? getCancelledStatus() : INITIAL_STATUS,
+    caseNumber
+  };
+  return input;
+};
+
+const isEndMoved = (input: HearingInput, existing: Event) =>
+  getEndDate(input).getTime() !== getEndDate(existing).getTime();
+
+const diffHearing = (input: HearingInput, existing: Event) => {
+  const changes: string[] = [];
+  if (input.caseNumber !== existing.caseNumber) changes.push('case');
+  if (input.title !== existing.title) changes.push('title');
+  if (input.notes !== existing.notes) changes.push('notes');
+  if (input.date.getTime() !== existing.date.getTime() || isEndMoved(input, existing)) changes.push('date');
+  if (input.startTime !== existing.startTime || input.endTime !== existing.endTime || !!input.allDay !== !!existing.allDay) {
+    changes.push('time');
+  }
+  if (input.status !== existing.status) changes.push('status');
+  return changes;
+};
+
+const compilePattern = (pattern: string) => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new IcsParseError(`Invalid case number pattern: ${pattern}`);
+  }
+};
+
+// Parses an .ics file and classifies each occurrence against the current hearings, without changing anything
+export const buildImportPreview = (
+  text: string,
+  existingEvents: Event[],
+  { casePattern = DEFAULT_CASE_PATTERN, defaultCaseNumber = '' }: IcsImportOptions = {}
+): ImportPreview => {
+  const pattern = compilePattern(casePattern);
+  const byId = new Map(existingEvents.map(event => [event.id, event]));
+  const items = new Map<string, ImportItem>();
+  const skipped: ImportPreview['skipped'] = [];
+
+  readOccurrences(parseIcs(text)).forEach(occurrence => {
+    const input = toHearingInput(occurrence, pattern, defaultCaseNumber);
+    if (!input) {
+      skipped.push({ summary: occurrence.summary, reason: 'No case number found' });
+      return;
+    }
+
+    const hearingId = toHearingId(occurrence);
+    const existing = byId.get(hearingId);
+
+    if (!existing) {
+      if (isCancelledStatus(input.status)) {
+        skipped.push({ summary: occurrence.summary, reason: 'Cancels a hearing that is not on the calendar' });
+        return;
+      }
+      const duplicate = existingEvents.find(event =>
+        event.caseNumber === input.caseNumber &&
+        event.date.getTime() === input.date.getTime() &&
+        event.startTime === input.startTime &&
+        event.title === input.title
+      );
+      items.set(hearingId, { kind: duplicate ? 'duplicate' : 'new', hearingId, input, changes: [], existing: duplicate });
+      return;
+    }
+
+    // Keep the hearing's own status unless the notice cancels or moves it
+    const moved = input.date.getTime() !== existing.date.getTime() ||
+      isEndMoved(input, existing) ||
+      input.startTime !== existing.startTime ||
+      input.endTime !== existing.endTime;
+    const status = isCancelledStatus(input.status) ? input.status : moved ? getMovedStatus(existing.status) : existing.status;
+    // The notice knows nothing of courtrooms, judges or who covers the hearing, so the hearing keeps its own
+    const merged: HearingInput = {
+      ...input,
+      courtroomId: existing.courtroomId,
+      judgeId: existing.judgeId,
+      assigneeIds: existing.assigneeIds,
+      status,
+      change: moved ? { reason: 'other', note: 'Updated from calendar import' } : undefined
+    };
+    const changes = diffHearing(merged, existing);
+    items.set(hearingId, { kind: changes.length > 0 ? 'updated' : 'duplicate', hearingId, input: merged, changes, existing });
+  });
+
+  return { items: [...items.values()], skipped };
+};
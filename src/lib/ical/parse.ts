@@ -0,0 +1,169 @@
+import { unescapeText, unfoldLines } from './format';
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export class IcsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcsParseError';
+  }
+}
+
+// Splits "NAME;PARAM=a;X=\"b:c\":value" at the first colon outside quotes
+const parseContentLine = (line: string): IcsProperty => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) {
+    throw new IcsParseError(`Malformed line: ${line}`);
+  }
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+export const parseIcs = (text: string): IcsComponent => {
+  const root: IcsComponent = { type: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  unfoldLines(text)
+    .filter(line => line.trim())
+    .forEach(line => {
+      const property = parseContentLine(line);
+      const current = stack[stack.length - 1];
+
+      if (property.name === 'BEGIN') {
+        const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+        current.components.push(component);
+        stack.push(component);
+      } else if (property.name === 'END') {
+        if (stack.length === 1 || current.type !== property.value.toUpperCase()) {
+          throw new IcsParseError(`Unexpected END:${property.value}`);
+        }
+        stack.pop();
+      } else {
+        current.properties.push(property);
+      }
+    });
+
+  const calendar = root.components.find(component => component.type === 'VCALENDAR');
+  if (!calendar) {
+    throw new IcsParseError('No VCALENDAR found in file');
+  }
+  return calendar;
+};
+
+export const getProperty = (component: IcsComponent, name: string) =>
+  component.properties.find(property => property.name === name);
+
+export const getText = (component: IcsComponent, name: string) => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : '';
+};
+
+// Wall-clock date-time as written in the file, plus how to interpret it
+export interface IcsDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  allDay: boolean;
+  zone: 'utc' | 'floating' | string;
+}
+
+export const parseDateTime = (value: string, params: Record<string, string> = {}): IcsDateTime => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new IcsParseError(`Invalid date: ${value}`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+    allDay: params.VALUE === 'DATE' || hour === undefined,
+    zone: utc ? 'utc' : params.TZID ?? 'floating'
+  };
+};
+
+export const isKnownTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getZoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+};
+
+// Turns a wall-clock time into an instant. Unknown TZIDs (e.g. Windows zone names) fall back to local time
+export const resolveDateTime = (dateTime: IcsDateTime): Date => {
+  const { year, month, day, hour, minute, second, allDay, zone } = dateTime;
+
+  if (allDay || zone === 'floating' || !isKnownTimeZone(zone === 'utc' ? 'UTC' : zone)) {
+    return new Date(year, month - 1, day, hour, minute, second);
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (zone === 'utc') return new Date(wallClock);
+
+  // Two passes settle the offset around DST transitions
+  let instant = wallClock - getZoneOffset(wallClock, zone);
+  const correctedOffset = getZoneOffset(instant, zone);
+  instant = wallClock - correctedOffset;
+  return new Date(instant);
+};
+
+// DURATION values such as PT1H30M or P1D
+export const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    throw new IcsParseError(`Invalid duration: ${value}`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part ?? '0');
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 * 3600 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -total : total;
+};
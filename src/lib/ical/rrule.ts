@@ -0,0 +1,178 @@
+import { IcsDateTime, IcsParseError, parseDateTime, resolveDateTime } from './parse';
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+}
+
+const toNumbers = (value?: string) => (value ? value.split(',').map(Number) : []);
+
+export const parseRRule = (value: string): RecurrenceRule => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key) parts[key.toUpperCase()] = partValue;
+  });
+
+  const freq = parts.FREQ as RecurrenceRule['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new IcsParseError(`Unsupported recurrence frequency: ${parts.FREQ}`);
+  }
+
+  return {
+    freq,
+    interval: Number(parts.INTERVAL ?? 1) || 1,
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL) : undefined,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : []).map(day => {
+      const match = day.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      if (!match || !WEEKDAYS.includes(match[2])) {
+        throw new IcsParseError(`Invalid BYDAY value: ${day}`);
+      }
+      return { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined };
+    }),
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH),
+    bySetPos: toNumbers(parts.BYSETPOS)
+  };
+};
+
+// Recurrence math is done on wall-clock times (as UTC dates) so occurrences keep their local time across DST
+const toWallClock = (dateTime: IcsDateTime) =>
+  Date.UTC(dateTime.year, dateTime.month - 1, dateTime.day, dateTime.hour, dateTime.minute, dateTime.second);
+
+const fromWallClock = (wallClock: number, template: IcsDateTime): IcsDateTime => {
+  const date = new Date(wallClock);
+  return {
+    ...template,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds()
+  };
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Days of a month matching BYDAY, e.g. 2TU (second Tuesday), -1FR (last Friday) or TU (every Tuesday)
+const monthDaysForWeekday = (year: number, month: number, weekday: number, ordinal?: number) => {
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) days.push(day);
+  }
+  if (ordinal === undefined) return days;
+  const picked = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+  return picked ? [picked] : [];
+};
+
+const applySetPos = (candidates: number[], bySetPos: number[]) => {
+  if (bySetPos.length === 0) return candidates;
+  return bySetPos
+    .map(position => (position > 0 ? candidates[position - 1] : candidates[candidates.length + position]))
+    .filter((candidate): candidate is number => candidate !== undefined);
+};
+
+const monthCandidates = (rule: RecurrenceRule, year: number, month: number, start: Date) => {
+  const time = start.getTime() % DAY_MS;
+  let days: number[];
+  if (rule.byMonthDay.length > 0) {
+    const total = daysInMonth(year, month);
+    days = rule.byMonthDay.map(day => (day > 0 ? day : total + day + 1)).filter(day => day >= 1 && day <= total);
+  } else if (rule.byDay.length > 0) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => monthDaysForWeekday(year, month, weekday, ordinal));
+  } else {
+    days = start.getUTCDate() <= daysInMonth(year, month) ? [start.getUTCDate()] : [];
+  }
+  const candidates = [...new Set(days)].sort((a, b) => a - b).map(day => Date.UTC(year, month, day) + time);
+  return applySetPos(candidates, rule.bySetPos);
+};
+
+const periodCandidates = (rule: RecurrenceRule, start: Date, period: number): number[] => {
+  const time = start.getTime() % DAY_MS;
+  const offset = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const candidate = start.getTime() + offset * DAY_MS;
+      const date = new Date(candidate);
+      const matchesDay = rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === date.getUTCDay());
+      const matchesMonth = rule.byMonth.length === 0 || rule.byMonth.includes(date.getUTCMonth() + 1);
+      return matchesDay && matchesMonth ? [candidate] : [];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (the RFC 5545 default WKST)
+      const mondayOffset = (start.getUTCDay() + 6) % 7;
+      const weekStart = start.getTime() - time - mondayOffset * DAY_MS + offset * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [start.getUTCDay()];
+      const candidates = weekdays
+        .map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS + time)
+        .filter(candidate => rule.byMonth.length === 0 || rule.byMonth.includes(new Date(candidate).getUTCMonth() + 1))
+        .sort((a, b) => a - b);
+      return applySetPos(candidates, rule.bySetPos);
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + offset;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month + 1)) return [];
+      return monthCandidates(rule, year, month, start);
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + offset;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map(month => month - 1) : [start.getUTCMonth()];
+      if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+        return months
+          .filter(month => start.getUTCDate() <= daysInMonth(year, month))
+          .map(month => Date.UTC(year, month, start.getUTCDate()) + time);
+      }
+      return months.flatMap(month => monthCandidates(rule, year, month, start));
+    }
+  }
+};
+
+export interface ExpandOptions {
+  maxOccurrences?: number;
+  horizonDays?: number;
+}
+
+// Occurrence start times of a recurring event, starting with DTSTART itself
+export const expandRRule = (
+  start: IcsDateTime,
+  rule: RecurrenceRule,
+  { maxOccurrences = 500, horizonDays = 730 }: ExpandOptions = {}
+): IcsDateTime[] => {
+  const startWallClock = toWallClock(start);
+  const startDate = new Date(startWallClock);
+  const horizon = startWallClock + horizonDays * DAY_MS;
+  const untilInstant = rule.until ? resolveDateTime(rule.until).getTime() : undefined;
+  const limit = Math.min(rule.count ?? maxOccurrences, maxOccurrences);
+  const periodDays = { DAILY: 1, WEEKLY: 7, MONTHLY: 28, YEARLY: 365 }[rule.freq];
+  const occurrences: IcsDateTime[] = [];
+
+  for (let period = 0; ; period++) {
+    const candidates = periodCandidates(rule, startDate, period);
+    for (const candidate of candidates) {
+      if (candidate < startWallClock) continue;
+      const occurrence = fromWallClock(candidate, start);
+      if (candidate > horizon) return occurrences;
+      if (untilInstant !== undefined && resolveDateTime(occurrence).getTime() > untilInstant) return occurrences;
+
+      occurrences.push(occurrence);
+      if (occurrences.length >= limit) return occurrences;
+    }
+
+    // Periods without candidates (e.g. the 31st in short months) still count towards the horizon
+    if (startWallClock + period * rule.interval * periodDays * DAY_MS > horizon) return occurrences;
+  }
+};
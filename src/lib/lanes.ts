@@ -0,0 +1,66 @@
+import { Event, PersonRecord } from '@/types/calendar';
+import { occursOn } from '@/lib/event-span';
+import { findConflicts } from '@/lib/conflicts';
+import { describeCourtroom, Resources } from '@/lib/resources';
+
+export type LaneGrouping = 'courtroom' | 'judge' | 'person';
+
+export interface Lane {
+  // Empty for the lane of hearings with no courtroom, judge or person assigned
+  id: string;
+  label: string;
+  events: Event[];
+  // Two hearings in the lane occupy the same time
+  overbooked: boolean;
+}
+
+// A hearing covered by two people shows in both their lanes
+const getLaneIds = (event: Event, grouping: LaneGrouping): string[] => {
+  switch (grouping) {
+    case 'courtroom': return event.courtroomId ? [event.courtroomId] : [];
+    case 'judge': return event.judgeId ? [event.judgeId] : [];
+    default: return event.coveredBy ?? [];
+  }
+};
+
+const getLaneDefinitions = (grouping: LaneGrouping, resources: Resources, people: PersonRecord[]) => {
+  switch (grouping) {
+    case 'courtroom':
+      return resources.courtrooms.map(courtroom => ({ id: courtroom.id, label: describeCourtroom(resources, courtroom.id) }));
+    case 'judge':
+      return resources.judges.map(judge => ({ id: judge.id, label: judge.name }));
+    default:
+      return people.map(person => ({ id: person.id, label: person.name }));
+  }
+};
+
+const unassignedLabels: Record<LaneGrouping, string> = {
+  courtroom: 'No courtroom',
+  judge: 'No judge',
+  person: 'Nobody assigned'
+};
+
+// One lane per courtroom, judge or person, even when it has nothing that day, so the clerk sees who is free
+export const buildLanes = (
+  events: Event[],
+  day: Date,
+  grouping: LaneGrouping,
+  resources: Resources,
+  people: PersonRecord[] = []
+): Lane[] => {
+  const dayEvents = events.filter(event => occursOn(event, day));
+  const lanes = getLaneDefinitions(grouping, resources, people)
+    .map(lane => ({ ...lane, events: dayEvents.filter(event => getLaneIds(event, grouping).includes(lane.id)) }));
+
+  // Hearings pointing at nothing, or at a courtroom or judge since removed, are gathered at the end
+  const laneIds = new Set(lanes.map(lane => lane.id));
+  const unassigned = dayEvents.filter(event => !getLaneIds(event, grouping).some(id => laneIds.has(id)));
+  if (unassigned.length > 0) {
+    lanes.push({ id: '', label: unassignedLabels[grouping], events: unassigned });
+  }
+
+  return lanes.map(lane => ({
+    ...lane,
+    overbooked: !!lane.id && lane.events.some(event => findConflicts(event, lane.events).length > 0)
+  }));
+};
@@ -0,0 +1,65 @@
+import { Event, EventType, HearingOutcome, OutcomeResult } from '@/types/calendar';
+import { stripCasePrefix } from '@/lib/calendar-store';
+import { combineDateAndTime } from '@/lib/ical/format';
+import { getEndDate } from '@/lib/event-span';
+import { isCancelledStatus } from '@/lib/statuses';
+
+// What the outcome panel produces; who recorded it and when are added on save
+export type OutcomeInput = Pick<HearingOutcome, 'result' | 'summary' | 'nextSteps'>;
+
+// A new hearing or deadline on the same case, pre-filled from an outcome for EventForm
+export type FollowUpDraft = Pick<
+  Event,
+  'caseNumber' | 'title' | 'notes' | 'type' | 'allDay' | 'followUpOf' | 'courtroomId' | 'judgeId' | 'assigneeIds'
+>;
+
+export const OUTCOME_RESULTS: { value: OutcomeResult; label: string }[] = [
+  { value: 'granted', label: 'Granted' },
+  { value: 'denied', label: 'Denied' },
+  { value: 'partial', label: 'Granted in part' },
+  { value: 'advisement', label: 'Taken under advisement' },
+  { value: 'continued', label: 'Continued' },
+  { value: 'settled', label: 'Settled' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'other', label: 'Other' }
+];
+
+export const describeResult = (result: OutcomeResult) =>
+  OUTCOME_RESULTS.find(option => option.value === result)?.label ?? result;
+
+export const createOutcome = (input: OutcomeInput, recordedBy: string): HearingOutcome => ({
+  result: input.result,
+  summary: input.summary.trim(),
+  nextSteps: input.nextSteps.trim(),
+  recordedBy,
+  recordedAt: new Date()
+});
+
+// Hearings that have finished, so there is something to record; deadlines and vacated hearings have no outcome
+export const isPastHearing = (event: Event, now = new Date()) =>
+  event.type === 'hearing' &&
+  !isCancelledStatus(event.status) &&
+  combineDateAndTime(getEndDate(event), event.endTime) <= now;
+
+export const isMissingOutcome = (event: Event, now = new Date()) => isPastHearing(event, now) && !event.outcome;
+
+// Next steps become the notes; a deadline is titled after the first step, since that is usually the filing due
+export const buildFollowUpDraft = (event: Event, type: EventType): FollowUpDraft => {
+  const nextSteps = event.outcome?.nextSteps ?? '';
+  const firstStep = nextSteps.split('\n').map(line => line.trim()).find(Boolean);
+  return {
+    caseNumber: event.caseNumber,
+    title: type === 'deadline' && firstStep ? firstStep : `Follow-up: ${stripCasePrefix(event.title, event.caseNumber)}`,
+    notes: [event.outcome && `${describeResult(event.outcome.result)}. ${event.outcome.summary}`.trim(), nextSteps]
+      .filter(Boolean)
+      .join('\n\n'),
+    type,
+    allDay: type === 'deadline' || undefined,
+    followUpOf: event.id,
+    // A further hearing usually comes back before the same bench; deadlines have no courtroom
+    courtroomId: type === 'hearing' ? event.courtroomId : undefined,
+    judgeId: type === 'hearing' ? event.judgeId : undefined,
+    // Whoever covered the hearing follows it up
+    assigneeIds: event.assigneeIds
+  };
+};
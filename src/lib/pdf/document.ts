@@ -0,0 +1,146 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+
+const PAGE_MARGIN = 48;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 32;
+const LINE_HEIGHT = 1.35;
+
+export interface PdfDocumentOptions {
+  title: string;
+  firmName?: string;
+}
+
+export interface PdfColumn {
+  label: string;
+  // Share of the content width
+  width: number;
+}
+
+type RGB = [number, number, number];
+
+// Thin layout layer over jsPDF: a cursor that flows text down the page and breaks pages as needed
+export const createPdfDocument = ({ title, firmName }: PdfDocumentOptions) => {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const top = PAGE_MARGIN + HEADER_HEIGHT;
+  const bottom = pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+  const generatedAt = new Date();
+  let y = top;
+
+  const lineHeight = (fontSize: number) => fontSize * LINE_HEIGHT;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = top;
+    }
+  };
+
+  const setFont = (fontSize: number, style: 'normal' | 'bold' | 'italic' = 'normal', color: RGB = [17, 24, 39]) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(fontSize);
+    doc.setTextColor(...color);
+  };
+
+  const wrap = (text: string, width: number): string[] => doc.splitTextToSize(text, width);
+
+  const heading = (text: string, fontSize = 14) => {
+    setFont(fontSize, 'bold');
+    ensureSpace(lineHeight(fontSize) + 8);
+    y += 4;
+    doc.text(text, PAGE_MARGIN, y + fontSize);
+    y += lineHeight(fontSize) + 2;
+    doc.setDrawColor(17, 24, 39);
+    doc.setLineWidth(1);
+    doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+    y += 6;
+  };
+
+  const paragraph = (text: string, fontSize = 10, style: 'normal' | 'bold' | 'italic' = 'normal', color?: RGB) => {
+    setFont(fontSize, style, color);
+    wrap(text, contentWidth).forEach(line => {
+      ensureSpace(lineHeight(fontSize));
+      doc.text(line, PAGE_MARGIN, y + fontSize);
+      y += lineHeight(fontSize);
+    });
+  };
+
+  const space = (height: number) => {
+    y += height;
+  };
+
+  // Rows never split across pages; the column header repeats after a page break
+  const table = (columns: PdfColumn[], rows: string[][], rowColors: (RGB | undefined)[] = []) => {
+    const fontSize = 9;
+    const padding = 4;
+    const widths = columns.map(column => column.width * contentWidth);
+
+    const drawHeader = () => {
+      setFont(fontSize, 'bold', [75, 85, 99]);
+      let x = PAGE_MARGIN;
+      columns.forEach((column, i) => {
+        doc.text(column.label, x + padding, y + fontSize);
+        x += widths[i];
+      });
+      y += lineHeight(fontSize) + padding;
+      doc.setDrawColor(156, 163, 175);
+      doc.setLineWidth(0.5);
+      doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+    };
+
+    ensureSpace(lineHeight(fontSize) * 2 + padding * 3);
+    drawHeader();
+
+    rows.forEach((row, rowIndex) => {
+      setFont(fontSize);
+      const cells = row.map((cell, i) => wrap(cell, widths[i] - padding * 2));
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight(fontSize) + padding * 2;
+
+      if (y + height > bottom) {
+        doc.addPage();
+        y = top;
+        drawHeader();
+      }
+
+      let x = PAGE_MARGIN;
+      cells.forEach((lines, i) => {
+        setFont(fontSize, i === 0 ? 'bold' : 'normal', rowColors[rowIndex] && i === cells.length - 1 ? rowColors[rowIndex] : undefined);
+        lines.forEach((line, lineIndex) => {
+          doc.text(line, x + padding, y + padding + fontSize + lineIndex * lineHeight(fontSize));
+        });
+        x += widths[i];
+      });
+
+      y += height;
+      doc.setDrawColor(229, 231, 235);
+      doc.line(PAGE_MARGIN, y, PAGE_MARGIN + contentWidth, y);
+    });
+    y += 8;
+  };
+
+  // Header and footer go on last, once the page count is known
+  const finish = () => {
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      setFont(9, 'bold', [55, 65, 81]);
+      doc.text(firmName || 'Case Calendar', PAGE_MARGIN, PAGE_MARGIN);
+      setFont(9, 'normal', [107, 114, 128]);
+      doc.text(title, pageWidth - PAGE_MARGIN, PAGE_MARGIN, { align: 'right' });
+      doc.setDrawColor(209, 213, 219);
+      doc.setLineWidth(0.5);
+      doc.line(PAGE_MARGIN, PAGE_MARGIN + 8, pageWidth - PAGE_MARGIN, PAGE_MARGIN + 8);
+
+      const footerY = pageHeight - PAGE_MARGIN;
+      doc.line(PAGE_MARGIN, footerY - 14, pageWidth - PAGE_MARGIN, footerY - 14);
+      doc.text(`Generated ${format(generatedAt, 'MMM d, yyyy h:mm a')}`, PAGE_MARGIN, footerY);
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, footerY, { align: 'right' });
+    }
+    return doc.output('blob');
+  };
+
+  return { heading, paragraph, space, table, finish };
+};
@@ -0,0 +1,139 @@
+import { format } from 'date-fns';
+import { Case, Event } from '@/types/calendar';
+import { stripCasePrefix } from '@/lib/calendar-store';
+import { buildDocket, DocketOptions, getDocketTitle } from '@/lib/docket';
+import { formatEventTimes, getEndDate, getSpanDays } from '@/lib/event-span';
+import { countContinuances, describeReason, formatSlot } from '@/lib/history';
+import { getStatus, getStatusLabel } from '@/lib/statuses';
+import { createPdfDocument, PdfColumn } from './document';
+
+const docketColumns: PdfColumn[] = [
+  { label: 'Time', width: 0.2 },
+  { label: 'Case No.', width: 0.14 },
+  { label: 'Case / Hearing', width: 0.5 },
+  { label: 'Status', width: 0.16 }
+];
+
+export const createDocketPdf = (events: Event[], cases: Case[], options: DocketOptions, firmName?: string) => {
+  const title = getDocketTitle(options);
+  const pdf = createPdfDocument({ title, firmName });
+
+  pdf.paragraph(title, 16, 'bold');
+  if (!options.includeCancelled) pdf.paragraph('Cancelled hearings omitted', 9, 'italic', [107, 114, 128]);
+  pdf.space(8);
+
+  buildDocket(events, cases, options).forEach(day => {
+    pdf.heading(format(day.date, 'EEEE, MMMM d, yyyy'), 12);
+    if (day.entries.length === 0) {
+      pdf.paragraph('No hearings scheduled.', 9, 'italic', [107, 114, 128]);
+      pdf.space(8);
+      return;
+    }
+
+    pdf.table(
+      docketColumns,
+      day.entries.map(({ event, caseTitle, spanDay }) => [
+        [formatEventTimes(event), spanDay].filter(Boolean).join('\n'),
+        event.caseNumber,
+        [caseTitle, stripCasePrefix(event.title, event.caseNumber), event.notes].filter(Boolean).join('\n'),
+        getStatusLabel(event.status)
+      ]),
+      day.entries.map(({ event }) => getStatus(event.status).rgb)
+    );
+  });
+
+  return pdf.finish();
+};
+
+const hearingColumns: PdfColumn[] = [
+  { label: 'Date', width: 0.16 },
+  { label: 'Time', width: 0.2 },
+  { label: 'Hearing / Notes', width: 0.42 },
+  { label: 'Status', width: 0.22 }
+];
+
+const historyColumns: PdfColumn[] = [
+  { label: 'Changed', width: 0.14 },
+  { label: 'From', width: 0.22 },
+  { label: 'To', width: 0.22 },
+  { label: 'Reason / Note', width: 0.26 },
+  { label: 'By', width: 0.16 }
+];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+const describeStatus = (event: Event) => {
+  const moves = event.history?.length ?? 0;
+  const continuances = countContinuances([event]);
+  if (moves === 0) return getStatusLabel(event.status);
+  return continuances > 0
+    ? `${getStatusLabel(event.status)}\nMoved ${plural(moves, 'time')}, ${plural(continuances, 'continuance')}`
+    : `${getStatusLabel(event.status)}\nMoved ${plural(moves, 'time')}`;
+};
+
+export const createCaseSummaryPdf = (caseItem: Case, events: Event[], firmName?: string) => {
+  const title = `Case ${caseItem.caseNumber}`;
+  const pdf = createPdfDocument({ title, firmName });
+  const hearings = events
+    .filter(event => event.parentId === caseItem.id)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime));
+
+  pdf.paragraph(`${caseItem.caseNumber}: ${caseItem.title}`, 16, 'bold');
+  pdf.paragraph(`Status: ${caseItem.status.charAt(0).toUpperCase() + caseItem.status.slice(1)}`, 10, 'normal', [75, 85, 99]);
+  if (caseItem.tags.length > 0) {
+    pdf.paragraph(`Tags: ${caseItem.tags.join(', ')}`, 10, 'normal', [75, 85, 99]);
+  }
+  const continuances = countContinuances(caseItem.hearings);
+  if (continuances > 0) {
+    pdf.paragraph(`Continuances: ${continuances}`, 10, 'normal', [75, 85, 99]);
+  }
+  pdf.space(8);
+
+  pdf.heading('Description', 12);
+  pdf.paragraph(caseItem.description || 'No description.', 10, caseItem.description ? 'normal' : 'italic');
+  pdf.space(8);
+
+  pdf.heading(`Hearings (${hearings.length})`, 12);
+  if (hearings.length === 0) {
+    pdf.paragraph('No hearings scheduled.', 9, 'italic', [107, 114, 128]);
+  } else {
+    pdf.table(
+      hearingColumns,
+      hearings.map(event => [
+        getSpanDays(event) > 1
+          ? `${format(event.date, 'MMM d')} -\n${format(getEndDate(event), 'MMM d, yyyy')}`
+          : format(event.date, 'MMM d, yyyy'),
+        formatEventTimes(event),
+        [stripCasePrefix(event.title, event.caseNumber), event.notes].filter(Boolean).join('\n'),
+        describeStatus(event)
+      ]),
+      hearings.map(event => getStatus(event.status).rgb)
+    );
+  }
+
+  // Each moved hearing gets its own table of moves, oldest first
+  const movedHearings = hearings.filter(event => event.history?.length);
+  if (movedHearings.length > 0) {
+    pdf.space(8);
+    pdf.heading('Reschedule History', 12);
+    movedHearings.forEach(event => {
+      pdf.paragraph(
+        `${format(event.date, 'MMM d, yyyy')}: ${stripCasePrefix(event.title, event.caseNumber)}`,
+        10,
+        'bold'
+      );
+      pdf.table(
+        historyColumns,
+        event.history.map(entry => [
+          format(entry.changedAt, 'MMM d, yyyy'),
+          formatSlot(entry.from),
+          formatSlot(entry.to),
+          [describeReason(entry.reason), entry.note].filter(Boolean).join('\n'),
+          entry.changedBy || 'Unknown'
+        ])
+      );
+    });
+  }
+
+  return pdf.finish();
+};
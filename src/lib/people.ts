@@ -0,0 +1,54 @@
+import { endOfWeek, startOfWeek } from 'date-fns';
+import { Event, PersonRecord, PersonRole } from '@/types/calendar';
+import { isCancelledStatus } from '@/lib/statuses';
+import { spansOverlap } from '@/lib/event-span';
+import { TagColor, tagColorNames } from '@/lib/tag-colors';
+
+export type PersonInput = Omit<PersonRecord, 'id'>;
+
+export const PERSON_ROLES: { value: PersonRole; label: string }[] = [
+  { value: 'attorney', label: 'Attorney' },
+  { value: 'paralegal', label: 'Paralegal' }
+];
+
+// Solid versions of the tag palette, for hearing cards and swatches where the pale tag colors would wash out
+const personColors: Record<TagColor, { card: string; swatch: string }> = {
+  blue: { card: 'bg-blue-600 border-blue-500', swatch: 'bg-blue-600' },
+  green: { card: 'bg-green-600 border-green-500', swatch: 'bg-green-600' },
+  yellow: { card: 'bg-yellow-500 border-yellow-400', swatch: 'bg-yellow-500' },
+  red: { card: 'bg-red-600 border-red-500', swatch: 'bg-red-600' },
+  purple: { card: 'bg-purple-600 border-purple-500', swatch: 'bg-purple-600' },
+  pink: { card: 'bg-pink-600 border-pink-500', swatch: 'bg-pink-600' },
+  indigo: { card: 'bg-indigo-600 border-indigo-500', swatch: 'bg-indigo-600' },
+  orange: { card: 'bg-orange-600 border-orange-500', swatch: 'bg-orange-600' },
+  teal: { card: 'bg-teal-600 border-teal-500', swatch: 'bg-teal-600' },
+  cyan: { card: 'bg-cyan-600 border-cyan-500', swatch: 'bg-cyan-600' }
+};
+
+export const getPersonColorClasses = (color: string) => personColors[color as TagColor] ?? personColors.blue;
+
+// New people get the first color nobody else has yet, so overlaid calendars stay apart
+export const getNextPersonColor = (people: PersonRecord[]): TagColor =>
+  tagColorNames.find(color => !people.some(person => person.color === color)) ??
+  tagColorNames[people.length % tagColorNames.length];
+
+export const findPerson = (people: PersonRecord[], personId?: string) =>
+  personId ? people.find(person => person.id === personId) : undefined;
+
+export const describePeople = (people: PersonRecord[], personIds: string[] = []) =>
+  personIds.map(personId => findPerson(people, personId)?.name).filter(Boolean).join(', ');
+
+export const isCoveredBy = (event: Pick<Event, 'coveredBy'>, personId: string) =>
+  !!event.coveredBy?.includes(personId);
+
+// Hearings each person covers in the week around the given day; deadlines and cancelled hearings don't count
+export const countWeeklyWorkload = (events: Event[], people: PersonRecord[], day: Date) => {
+  const week = { date: startOfWeek(day, { weekStartsOn: 1 }), endDate: endOfWeek(day, { weekStartsOn: 1 }) };
+  const inWeek = events.filter(event =>
+    event.type === 'hearing' && !isCancelledStatus(event.status) && spansOverlap(event, week)
+  );
+
+  return Object.fromEntries(
+    people.map(person => [person.id, inWeek.filter(event => isCoveredBy(event, person.id)).length])
+  ) as Record<string, number>;
+};
@@ -0,0 +1,159 @@
+import { addDays, differenceInCalendarDays, format, parse } from 'date-fns';
+import { HearingOutcome, HearingRecord, OccurrenceException, Recurrence, RescheduleEntry } from '@/types/calendar';
+import { IcsDateTime } from '@/lib/ical/parse';
+import { getSpanDays } from '@/lib/event-span';
+import { expandRRule, RecurrenceRule } from '@/lib/ical/rrule';
+
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+// Open-ended series are expanded this far past today
+const HORIZON_DAYS = 365;
+const MAX_OCCURRENCES = 1000;
+
+// Occurrence event ids are "<series id>::<yyyy-MM-dd>", so they stay stable when the series is edited
+const OCCURRENCE_SEPARATOR = '::';
+
+export const getOccurrenceKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const parseOccurrenceKey = (key: string) => parse(key, 'yyyy-MM-dd', new Date());
+
+export const toOccurrenceId = (seriesId: string, key: string) => `${seriesId}${OCCURRENCE_SEPARATOR}${key}`;
+
+export const parseOccurrenceId = (id: string) => {
+  const index = id.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (index === -1) return null;
+  return { seriesId: id.slice(0, index), occurrenceKey: id.slice(index + OCCURRENCE_SEPARATOR.length) };
+};
+
+const toWallClock = (date: Date, endOfDay = false): IcsDateTime => ({
+  year: date.getFullYear(),
+  month: date.getMonth() + 1,
+  day: date.getDate(),
+  hour: endOfDay ? 23 : 0,
+  minute: endOfDay ? 59 : 0,
+  second: endOfDay ? 59 : 0,
+  allDay: false,
+  zone: 'floating'
+});
+
+// 1st-4th weekday of the month, or -1 when the date falls in the month's last week
+const getWeekdayOrdinal = (date: Date) => {
+  const ordinal = Math.ceil(date.getDate() / 7);
+  const isLastWeek = date.getMonth() !== addDays(date, 7).getMonth();
+  return ordinal > 4 || (ordinal === 4 && isLastWeek) ? -1 : ordinal;
+};
+
+// Hearing recurrences are a subset of RFC 5545 rules, so they share the .ics importer's expansion
+const toRecurrenceRule = (recurrence: Recurrence, start: Date): RecurrenceRule => ({
+  freq: recurrence.frequency === 'daily' ? 'DAILY' : recurrence.frequency === 'weekly' ? 'WEEKLY' : 'MONTHLY',
+  interval: Math.max(1, recurrence.interval),
+  count: recurrence.count,
+  until: recurrence.until ? toWallClock(recurrence.until, true) : undefined,
+  byDay: recurrence.frequency === 'monthlyWeekday'
+    ? [{ weekday: start.getDay(), ordinal: getWeekdayOrdinal(start) }]
+    : [],
+  byMonthDay: [],
+  byMonth: [],
+  bySetPos: []
+});
+
+export const expandOccurrenceDates = (start: Date, recurrence: Recurrence, today = new Date()) => {
+  const horizonDays = Math.max(differenceInCalendarDays(today, start), 0) + HORIZON_DAYS;
+  return expandRRule(toWallClock(start), toRecurrenceRule(recurrence, start), {
+    horizonDays,
+    maxOccurrences: MAX_OCCURRENCES
+  }).map(({ year, month, day }) => new Date(year, month - 1, day));
+};
+
+export interface HearingOccurrence {
+  key: string;
+  title: string;
+  notes: string;
+  date: Date;
+  endDate?: Date;
+  allDay?: boolean;
+  startTime: string;
+  endTime: string;
+  status: HearingRecord['status'];
+  sequence: number;
+  // Moves of this occurrence alone; moves of the whole series are kept on the series
+  history: RescheduleEntry[];
+  outcome?: HearingOutcome;
+  courtroomId?: string;
+  judgeId?: string;
+  assigneeIds?: string[];
+}
+
+// Multi-day series repeat the whole span, e.g. a two-day sitting every month
+const getOccurrenceEndDate = (hearing: HearingRecord, date: Date) => {
+  const spanDays = getSpanDays(hearing);
+  return spanDays > 1 ? addDays(date, spanDays - 1) : undefined;
+};
+
+const applyException = (hearing: HearingRecord, date: Date, exception: OccurrenceException = {}): HearingOccurrence => ({
+  key: getOccurrenceKey(date),
+  title: exception.title ?? hearing.title,
+  notes: exception.notes ?? hearing.notes,
+  date: exception.date ?? date,
+  endDate: exception.endDate ?? getOccurrenceEndDate(hearing, exception.date ?? date),
+  allDay: exception.allDay ?? hearing.allDay,
+  startTime: exception.startTime ?? hearing.startTime,
+  endTime: exception.endTime ?? hearing.endTime,
+  status: exception.status ?? hearing.status,
+  sequence: exception.sequence ?? hearing.sequence ?? 0,
+  history: exception.history ?? [],
+  outcome: exception.outcome,
+  courtroomId: exception.courtroomId ?? hearing.courtroomId,
+  judgeId: exception.judgeId ?? hearing.judgeId,
+  assigneeIds: exception.assigneeIds ?? hearing.assigneeIds
+});
+
+// Concrete occurrences of a series with its exceptions applied; skipped occurrences are left out
+export const expandHearing = (hearing: HearingRecord, today = new Date()): HearingOccurrence[] => {
+  if (!hearing.recurrence) return [];
+
+  return expandOccurrenceDates(hearing.date, hearing.recurrence, today)
+    .map(date => ({ date, exception: hearing.exceptions?.[getOccurrenceKey(date)] }))
+    .filter(({ exception }) => !exception?.skipped)
+    .map(({ date, exception }) => applyException(hearing, date, exception));
+};
+
+export const findOccurrence = (hearing: HearingRecord, key: string) => {
+  const date = parseOccurrenceKey(key);
+  return applyException(hearing, date, hearing.exceptions?.[key]);
+};
+
+export const isSameRecurrence = (a?: Recurrence, b?: Recurrence) =>
+  a?.frequency === b?.frequency &&
+  a?.interval === b?.interval &&
+  a?.count === b?.count &&
+  a?.until?.getTime() === b?.until?.getTime();
+
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ordinalNames: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+// e.g. "Every 2 weeks on Tuesday, until Jun 30, 2026"
+export const describeRecurrence = (recurrence: Recurrence, start: Date) => {
+  const { frequency, interval, until, count } = recurrence;
+  const every = (unit: string) => (interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`);
+
+  let text: string;
+  switch (frequency) {
+    case 'daily':
+      text = every('day');
+      break;
+    case 'weekly':
+      text = `${every('week')} on ${weekdayNames[start.getDay()]}`;
+      break;
+    case 'monthly':
+      text = `${every('month')} on day ${start.getDate()}`;
+      break;
+    case 'monthlyWeekday':
+      text = `${every('month')} on the ${ordinalNames[getWeekdayOrdinal(start)]} ${weekdayNames[start.getDay()]}`;
+      break;
+  }
+
+  if (until) return `${text}, until ${format(until, 'MMM d, yyyy')}`;
+  if (count) return `${text}, ${count} times`;
+  return text;
+};
@@ -0,0 +1,74 @@
+import { Event } from '@/types/calendar';
+import { minutesToTime, timeToMinutes } from '@/lib/timeline';
+
+export type Session = 'morning' | 'afternoon';
+
+export interface Slot {
+  date: Date;
+  startTime: string;
+  endTime: string;
+}
+
+export const SNAP_MINUTES = 15;
+
+const SESSION_BOUNDARY = 12 * 60;
+const SESSION_DEFAULT_START: Record<Session, number> = { morning: 9 * 60, afternoon: 13 * 60 };
+
+export const snapMinutes = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+export const getSession = (event: Pick<Event, 'startTime'>): Session =>
+  timeToMinutes(event.startTime) < SESSION_BOUNDARY ? 'morning' : 'afternoon';
+
+const getDuration = (event: Event) =>
+  Math.max(timeToMinutes(event.endTime) - timeToMinutes(event.startTime), SNAP_MINUTES);
+
+const onDay = (day: Date) => {
+  const date = new Date(day);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+// Moves an event to a day and session, keeping its start time if it already falls in that session
+export const moveToSession = (event: Event, day: Date, session: Session): Slot => {
+  const start = getSession(event) === session ? timeToMinutes(event.startTime) : SESSION_DEFAULT_START[session];
+  return {
+    date: onDay(day),
+    startTime: minutesToTime(start),
+    endTime: minutesToTime(start + getDuration(event))
+  };
+};
+
+// Moves an event to an exact start time on a day, keeping its duration
+export const moveToSlot = (event: Event, day: Date, startMinutes: number): Slot => {
+  const duration = getDuration(event);
+  const start = Math.min(Math.max(snapMinutes(startMinutes), 0), 24 * 60 - duration);
+  return {
+    date: onDay(day),
+    startTime: minutesToTime(start),
+    endTime: minutesToTime(start + duration)
+  };
+};
+
+// Changes only the end time, never letting it cross the start time
+export const resizeTo = (event: Event, endMinutes: number): Slot => {
+  const start = timeToMinutes(event.startTime);
+  return {
+    date: event.date,
+    startTime: event.startTime,
+    endTime: minutesToTime(Math.max(snapMinutes(endMinutes), start + SNAP_MINUTES))
+  };
+};
+
+// Next or previous weekday, since the weekly view only shows Monday to Friday
+export const shiftWeekday = (date: Date, direction: 1 | -1) => {
+  const next = new Date(date);
+  do {
+    next.setDate(next.getDate() + direction);
+  } while (next.getDay() === 0 || next.getDay() === 6);
+  return next;
+};
+
+export const isSameSlot = (event: Event, slot: Slot) =>
+  event.date.toDateString() === slot.date.toDateString() &&
+  event.startTime === slot.startTime &&
+  event.endTime === slot.endTime;
@@ -0,0 +1,52 @@
+import { CourthouseRecord, CourtroomRecord, Event, JudgeRecord } from '@/types/calendar';
+
+// Where and before whom hearings are held, as drilled into the views
+export interface Resources {
+  courthouses: CourthouseRecord[];
+  courtrooms: CourtroomRecord[];
+  judges: JudgeRecord[];
+}
+
+export const emptyResources: Resources = { courthouses: [], courtrooms: [], judges: [] };
+
+export type CourthouseInput = Omit<CourthouseRecord, 'id'>;
+export type CourtroomInput = Omit<CourtroomRecord, 'id'>;
+export type JudgeInput = Omit<JudgeRecord, 'id'>;
+
+// Offered when adding a courthouse; any other IANA zone can be typed in
+export const COMMON_TIME_ZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu'
+];
+
+export const findCourtroom = (resources: Resources, courtroomId?: string) =>
+  courtroomId ? resources.courtrooms.find(courtroom => courtroom.id === courtroomId) : undefined;
+
+export const findCourthouse = (resources: Resources, courthouseId?: string) =>
+  courthouseId ? resources.courthouses.find(courthouse => courthouse.id === courthouseId) : undefined;
+
+export const findJudge = (resources: Resources, judgeId?: string) =>
+  judgeId ? resources.judges.find(judge => judge.id === judgeId) : undefined;
+
+// e.g. "Dept. 12, Stanley Mosk Courthouse"; empty when the hearing has no courtroom
+export const describeCourtroom = (resources: Resources, courtroomId?: string) => {
+  const courtroom = findCourtroom(resources, courtroomId);
+  if (!courtroom) return '';
+  const courthouse = findCourthouse(resources, courtroom.courthouseId);
+  return courthouse ? `${courtroom.name}, ${courthouse.name}` : courtroom.name;
+};
+
+// Everything a hearing's location and bench resolve to, for display
+export const describeHearingResources = (resources: Resources, event: Pick<Event, 'courtroomId' | 'judgeId'>) => {
+  const courtroom = findCourtroom(resources, event.courtroomId);
+  return {
+    courtroom: describeCourtroom(resources, event.courtroomId),
+    courthouse: findCourthouse(resources, courtroom?.courthouseId),
+    judge: findJudge(resources, event.judgeId)?.name ?? ''
+  };
+};
@@ -0,0 +1,87 @@
+import { addDays, startOfDay } from 'date-fns';
+import { Case } from '@/types/calendar';
+
+// Seed data used the first time the app runs against an empty store
+export function createSampleCases(): Case[] {
+  // Hearing dates are calendar days; the time of day lives in startTime and endTime
+  const today = startOfDay(new Date());
+
+  return [
+    {
+      id: '1',
+      caseNumber: '2024-001',
+      title: 'Smith vs. Johnson Contract Dispute',
+      description: 'Contract dispute regarding construction services',
+      tags: ['contract', 'construction', 'dispute', 'commercial'],
+      status: 'open',
+      hearings: [
+        {
+          id: '1-h1',
+          title: 'Initial Hearing',
+          notes: 'Bring all preliminary documents and evidence',
+          date: today,
+          startTime: '09:00',
+          endTime: '10:30',
+          status: 'scheduled'
+        },
+        {
+          id: '1-h2',
+          title: 'Evidence Review Hearing',
+          notes: 'Bring the expert report exhibits',
+          date: today,
+          startTime: '11:00',
+          endTime: '12:30',
+          status: 'continued',
+          sequence: 1,
+          history: [
+            {
+              from: { date: addDays(today, -7), startTime: '09:00', endTime: '10:30' },
+              to: { date: today, startTime: '11:00', endTime: '12:30' },
+              reason: 'court',
+              note: 'Judge availability',
+              changedBy: '',
+              changedAt: new Date(Date.now() - 10 * 86400000)
+            }
+          ]
+        },
+        {
+          id: '1-h3',
+          title: 'Closing Arguments',
+          notes: 'Prepare final statement summary',
+          date: today,
+          startTime: '14:00',
+          endTime: '16:00',
+          status: 'scheduled'
+        }
+      ]
+    },
+    {
+      id: '2',
+      caseNumber: '2024-002',
+      title: 'Williams Personal Injury Case',
+      description: 'Personal injury claim from vehicle accident',
+      tags: ['personal-injury', 'accident', 'insurance', 'medical'],
+      status: 'open',
+      hearings: [
+        {
+          id: '2-h1',
+          title: 'Settlement Conference',
+          notes: 'Cancelled due to plaintiff unavailability',
+          date: addDays(today, 1),
+          startTime: '10:00',
+          endTime: '15:00',
+          status: 'vacated'
+        },
+        {
+          id: '2-h2',
+          title: 'Mediation Hearing',
+          notes: 'Court-ordered mediation attempt',
+          date: addDays(today, 2),
+          startTime: '09:00',
+          endTime: '12:00',
+          status: 'scheduled'
+        }
+      ]
+    }
+  ];
+}
@@ -0,0 +1,146 @@
+import { CalendarArrowUp, CalendarCheck, CalendarClock, CirclePause, CircleX, Gavel, LucideIcon } from 'lucide-react';
+
+// What a status means to the app, independent of its label: scheduling rules only ever look at this
+//   scheduled  - on the calendar and expected to go ahead
+//   moved      - on the calendar at a new date or time
+//   held       - took place
+//   cancelled  - off the calendar; doesn't occupy its slot
+export type StatusCategory = 'scheduled' | 'moved' | 'held' | 'cancelled';
+
+export interface StatusDefinition<Status extends string = HearingStatus> {
+  label: string;
+  category: StatusCategory;
+  icon: LucideIcon;
+  // Chip classes for badges, text classes for plain labels, and the same color for PDFs
+  chipClassName: string;
+  textClassName: string;
+  rgb: [number, number, number];
+  // Statuses a hearing in this status may change to
+  transitions: Status[];
+}
+
+// Statuses are whatever the workflow defines; transitions may only name one of them
+const defineWorkflow = <Status extends string>(definitions: Record<Status, StatusDefinition<NoInfer<Status>>>) =>
+  definitions;
+
+// The hearing workflow; a status added here is a HearingStatus everywhere, stored data and backups included
+export const STATUS_DEFINITIONS = defineWorkflow({
+  scheduled: {
+    label: 'Scheduled',
+    category: 'scheduled',
+    icon: CalendarClock,
+    chipClassName: 'text-green-700 bg-green-100 border-green-300',
+    textClassName: 'text-green-700',
+    rgb: [21, 128, 61],
+    transitions: ['confirmed', 'continued', 'adjourned', 'held', 'vacated']
+  },
+  confirmed: {
+    label: 'Confirmed',
+    category: 'scheduled',
+    icon: CalendarCheck,
+    chipClassName: 'text-teal-700 bg-teal-100 border-teal-300',
+    textClassName: 'text-teal-700',
+    rgb: [15, 118, 110],
+    transitions: ['scheduled', 'continued', 'adjourned', 'held', 'vacated']
+  },
+  continued: {
+    label: 'Continued',
+    category: 'moved',
+    icon: CalendarArrowUp,
+    chipClassName: 'text-yellow-700 bg-yellow-100 border-yellow-300',
+    textClassName: 'text-yellow-700',
+    rgb: [161, 98, 7],
+    transitions: ['confirmed', 'continued', 'adjourned', 'held', 'vacated']
+  },
+  adjourned: {
+    label: 'Adjourned',
+    category: 'moved',
+    icon: CirclePause,
+    chipClassName: 'text-orange-700 bg-orange-100 border-orange-300',
+    textClassName: 'text-orange-700',
+    rgb: [194, 65, 12],
+    transitions: ['scheduled', 'confirmed', 'continued', 'held', 'vacated']
+  },
+  held: {
+    label: 'Held',
+    category: 'held',
+    icon: Gavel,
+    chipClassName: 'text-slate-700 bg-slate-100 border-slate-300',
+    textClassName: 'text-slate-700',
+    rgb: [51, 65, 85],
+    transitions: ['scheduled']
+  },
+  vacated: {
+    label: 'Vacated',
+    category: 'cancelled',
+    icon: CircleX,
+    chipClassName: 'text-red-700 bg-red-100 border-red-300',
+    textClassName: 'text-red-700 line-through',
+    rgb: [185, 28, 28],
+    transitions: ['scheduled']
+  }
+});
+
+export type HearingStatus = keyof typeof STATUS_DEFINITIONS;
+
+// Display order for selects and filters
+export const HEARING_STATUSES = Object.keys(STATUS_DEFINITIONS) as HearingStatus[];
+
+// New and imported hearings start here
+export const INITIAL_STATUS: HearingStatus = 'scheduled';
+
+export const getStatus = (status: HearingStatus) => STATUS_DEFINITIONS[status] ?? STATUS_DEFINITIONS[INITIAL_STATUS];
+
+export const getStatusLabel = (status: HearingStatus) => getStatus(status).label;
+
+export const isCancelledStatus = (status: HearingStatus) => getStatus(status).category === 'cancelled';
+
+export const canTransition = (from: HearingStatus, to: HearingStatus) =>
+  from === to || getStatus(from).transitions.includes(to);
+
+// The current status followed by the ones it may change to, in display order
+export const getStatusOptions = (current?: HearingStatus) =>
+  current
+    ? HEARING_STATUSES.filter(status => canTransition(current, status))
+    : HEARING_STATUSES.filter(status => canTransition(INITIAL_STATUS, status) && getStatus(status).category === 'scheduled');
+
+// Status for a hearing that was just moved: the first "moved" status it may change to, else unchanged
+export const getMovedStatus = (current: HearingStatus) =>
+  getStatus(current).category === 'moved'
+    ? current
+    : getStatus(current).transitions.find(status => getStatus(status).category === 'moved') ?? current;
+
+// Status for a hearing whose outcome was recorded: the first "held" status it may change to, else unchanged
+export const getHeldStatus = (current: HearingStatus) =>
+  getStatus(current).category === 'held'
+    ? current
+    : getStatus(current).transitions.find(status => getStatus(status).category === 'held') ?? current;
+
+// Status for a hearing a calendar or court notice cancels
+export const getCancelledStatus = () =>
+  HEARING_STATUSES.find(status => getStatus(status).category === 'cancelled') ?? INITIAL_STATUS;
+
+// Card styling in the calendar views: moved hearings are dimmed, held ones faded, cancelled ones struck through
+export const getStatusOpacity = (status: HearingStatus) => {
+  switch (getStatus(status).category) {
+    case 'moved': return 'opacity-75';
+    case 'held': return 'opacity-60';
+    case 'cancelled': return 'opacity-50 line-through';
+    default: return 'opacity-100';
+  }
+};
+
+// Statuses written before the workflow was configurable; storage migrations upgrade them with this too
+export const LEGACY_STATUSES: Record<string, HearingStatus> = {
+  new: 'scheduled',
+  rescheduled: 'continued',
+  cancelled: 'vacated',
+  canceled: 'vacated'
+};
+
+// Reads a status from stored data or a spreadsheet: ids, labels and legacy values, case-insensitively
+export const parseStatus = (value: string): HearingStatus | undefined => {
+  const normalized = value.trim().toLowerCase();
+  return HEARING_STATUSES.find(status => status === normalized || getStatusLabel(status).toLowerCase() === normalized) ??
+    LEGACY_STATUSES[normalized];
+};
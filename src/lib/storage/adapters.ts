@@ -0,0 +1,99 @@
+import { StorageAdapter, StoredEnvelope } from './types';
+
+const DEFAULT_KEY = 'case-calendar';
+
+export function createMemoryAdapter(initial: StoredEnvelope | null = null): StorageAdapter {
+  let stored = initial;
+
+  return {
+    name: 'memory',
+    read: async () => stored,
+    write: async (envelope) => {
+      stored = envelope;
+    },
+    clear: async () => {
+      stored = null;
+    }
+  };
+}
+
+export function createLocalStorageAdapter(key = DEFAULT_KEY): StorageAdapter {
+  return {
+    name: 'localStorage',
+    read: async () => {
+      const raw = window.localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as StoredEnvelope) : null;
+    },
+    write: async (envelope) => {
+      window.localStorage.setItem(key, JSON.stringify(envelope));
+    },
+    clear: async () => {
+      window.localStorage.removeItem(key);
+    }
+  };
+}
+
+const STORE_NAME = 'snapshots';
+const RECORD_KEY = 'current';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export function createIndexedDBAdapter(dbName = DEFAULT_KEY): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    const transaction = db.transaction(STORE_NAME, mode);
+    return requestToPromise(run(transaction.objectStore(STORE_NAME)));
+  };
+
+  return {
+    name: 'indexedDB',
+    read: async () => {
+      const envelope = await withStore<StoredEnvelope | undefined>('readonly', store => store.get(RECORD_KEY));
+      return envelope ?? null;
+    },
+    write: async (envelope) => {
+      await withStore('readwrite', store => store.put(envelope, RECORD_KEY));
+    },
+    clear: async () => {
+      await withStore('readwrite', store => store.delete(RECORD_KEY));
+    }
+  };
+}
+
+// Picks the most capable adapter the browser supports. VITE_STORAGE_ADAPTER can force one
+// ('memory' | 'localStorage' | 'indexedDB'), which is handy for demos and debugging.
+export function createDefaultAdapter(): StorageAdapter {
+  const preferred = import.meta.env.VITE_STORAGE_ADAPTER as string | undefined;
+  const hasWindow = typeof window !== 'undefined';
+
+  if (preferred === 'memory' || !hasWindow) {
+    return createMemoryAdapter();
+  }
+  if (preferred === 'localStorage' || (!preferred && !('indexedDB' in window))) {
+    return 'localStorage' in window ? createLocalStorageAdapter() : createMemoryAdapter();
+  }
+  return createIndexedDBAdapter();
+}
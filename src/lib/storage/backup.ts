@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { fromPersistedData, migrate, PersistedData, SCHEMA_VERSION, serializeSnapshot, StorageSchemaError } from './schema';
+import { CalendarSnapshot } from './types';
+import { HEARING_STATUSES } from '@/lib/statuses';
+import { RESCHEDULE_REASONS } from '@/lib/history';
+import { OUTCOME_RESULTS } from '@/lib/outcomes';
+import { PERSON_ROLES } from '@/lib/people';
+import { HearingStatus, OutcomeResult, PersonRole, RescheduleReason } from '@/types/calendar';
+
+// Marks a JSON file as one of our backups rather than some other JSON document
+export const BACKUP_FORMAT = 'case-calendar-backup';
+
+export class BackupError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export interface RestoredBackup {
+  snapshot: CalendarSnapshot;
+  version: number;
+  savedAt: Date;
+}
+
+const envelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1),
+  savedAt: z.string(),
+  data: z.unknown()
+});
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+const time = z.string().regex(/^\d{2}:\d{2}$/, 'Expected HH:mm');
+const statusSchema = z.enum(HEARING_STATUSES as [HearingStatus, ...HearingStatus[]]);
+const reasonSchema = z.enum(RESCHEDULE_REASONS.map(option => option.value) as [RescheduleReason, ...RescheduleReason[]]);
+const resultSchema = z.enum(OUTCOME_RESULTS.map(option => option.value) as [OutcomeResult, ...OutcomeResult[]]);
+const roleSchema = z.enum(PERSON_ROLES.map(option => option.value) as [PersonRole, ...PersonRole[]]);
+
+const slotSchema = z.object({
+  date: isoDate,
+  endDate: isoDate.optional(),
+  allDay: z.boolean().optional(),
+  startTime: time,
+  endTime: time
+});
+
+const historySchema = z.array(z.object({
+  from: slotSchema,
+  to: slotSchema,
+  reason: reasonSchema,
+  note: z.string().optional(),
+  changedBy: z.string(),
+  changedAt: isoDate
+}).passthrough());
+
+const outcomeSchema = z.object({
+  result: resultSchema,
+  summary: z.string(),
+  nextSteps: z.string(),
+  recordedBy: z.string(),
+  recordedAt: isoDate
+}).passthrough();
+
+// Validates the current persisted shape; unknown fields pass through so newer optional fields survive a round trip
+const dataSchema = z.object({
+  cases: z.array(z.object({
+    id: z.string().min(1),
+    caseNumber: z.string().min(1),
+    title: z.string(),
+    description: z.string(),
+    tagIds: z.array(z.string()),
+    status: z.enum(['open', 'closed', 'archived']),
+    closedAt: isoDate.optional(),
+    assigneeIds: z.array(z.string()).optional()
+  }).passthrough()),
+  hearings: z.array(z.object({
+    id: z.string().min(1),
+    caseId: z.string().min(1),
+    title: z.string(),
+    notes: z.string(),
+    date: isoDate,
+    startTime: time,
+    endTime: time,
+    endDate: isoDate.optional(),
+    allDay: z.boolean().optional(),
+    status: statusSchema,
+    type: z.enum(['hearing', 'deadline']).optional(),
+    sequence: z.number().int().optional(),
+    history: historySchema.optional(),
+    outcome: outcomeSchema.optional(),
+    followUpOf: z.string().optional(),
+    courtroomId: z.string().optional(),
+    judgeId: z.string().optional(),
+    assigneeIds: z.array(z.string()).optional(),
+    deadlineSource: z.object({
+      triggerId: z.string().min(1),
+      ruleSetId: z.string().min(1),
+      ruleId: z.string().min(1),
+      triggerDate: isoDate
+    }).passthrough().optional(),
+    recurrence: z.object({
+      frequency: z.enum(['daily', 'weekly', 'monthly', 'monthlyWeekday']),
+      interval: z.number().int().min(1),
+      until: isoDate.optional(),
+      count: z.number().int().min(1).optional()
+    }).optional(),
+    exceptions: z.record(z.object({
+      skipped: z.boolean().optional(),
+      date: isoDate.optional(),
+      endDate: isoDate.optional(),
+      allDay: z.boolean().optional(),
+      startTime: time.optional(),
+      endTime: time.optional(),
+      status: statusSchema.optional(),
+      history: historySchema.optional(),
+      outcome: outcomeSchema.optional(),
+      courtroomId: z.string().optional(),
+      judgeId: z.string().optional(),
+      assigneeIds: z.array(z.string()).optional()
+    }).passthrough()).optional()
+  }).passthrough()),
+  tags: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    color: z.string()
+  }).passthrough()),
+  closureCalendars: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string()
+  }).passthrough()),
+  closures: z.array(z.object({
+    id: z.string().min(1),
+    calendarId: z.string().optional(),
+    name: z.string(),
+    date: isoDate,
+    endDate: isoDate.optional()
+  }).passthrough()),
+  courthouses: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    address: z.string(),
+    timeZone: z.string()
+  }).passthrough()),
+  courtrooms: z.array(z.object({
+    id: z.string().min(1),
+    courthouseId: z.string().min(1),
+    name: z.string()
+  }).passthrough()),
+  judges: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    courtroomId: z.string().optional()
+  }).passthrough()),
+  people: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    role: roleSchema,
+    color: z.string()
+  }).passthrough()),
+  settings: z.object({}).passthrough()
+}).superRefine((data, ctx) => {
+  const caseIds = new Set(data.cases.map(caseRecord => caseRecord.id));
+  data.hearings.forEach((hearing, index) => {
+    if (!caseIds.has(hearing.caseId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Hearing "${hearing.title}" belongs to a missing case`, path: ['hearings', index] });
+    }
+  });
+});
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.slice(0, 10).map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+
+export const createBackup = (snapshot: CalendarSnapshot) =>
+  JSON.stringify({ format: BACKUP_FORMAT, ...serializeSnapshot(snapshot) }, null, 2);
+
+// Parses, version-checks, migrates and validates a backup file
+export const readBackup = (text: string): RestoredBackup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON');
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new BackupError('The file is not a calendar backup', describeIssues(envelope.error));
+  }
+
+  const { version, savedAt } = envelope.data;
+  if (version > SCHEMA_VERSION) {
+    throw new BackupError(
+      `This backup was made with a newer version of the app (format v${version}); this version reads up to v${SCHEMA_VERSION}`
+    );
+  }
+
+  let migrated: PersistedData;
+  try {
+    migrated = migrate({ version, savedAt, data: envelope.data.data });
+  } catch (error) {
+    if (error instanceof StorageSchemaError) throw new BackupError(error.message);
+    throw new BackupError(`The backup could not be upgraded from format v${version}`);
+  }
+
+  const data = dataSchema.safeParse(migrated);
+  if (!data.success) {
+    throw new BackupError('The backup contains invalid records', describeIssues(data.error));
+  }
+
+  return {
+    snapshot: fromPersistedData(data.data as PersistedData),
+    version,
+    savedAt: new Date(savedAt)
+  };
+};
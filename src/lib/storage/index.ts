@@ -0,0 +1,18 @@
+import { deserializeSnapshot, serializeSnapshot } from './schema';
+import { CalendarSnapshot, StorageAdapter } from './types';
+
+export { createDefaultAdapter, createIndexedDBAdapter, createLocalStorageAdapter, createMemoryAdapter } from './adapters';
+export { SCHEMA_VERSION, StorageSchemaError } from './schema';
+export { BACKUP_FORMAT, BackupError, createBackup, readBackup } from './backup';
+export type { RestoredBackup } from './backup';
+export type { CalendarSnapshot, StorageAdapter, StoredEnvelope } from './types';
+
+// Returns null when nothing has been stored yet, so callers can decide how to seed
+export async function loadSnapshot(adapter: StorageAdapter): Promise<CalendarSnapshot | null> {
+  const envelope = await adapter.read();
+  return envelope ? deserializeSnapshot(envelope) : null;
+}
+
+export async function saveSnapshot(adapter: StorageAdapter, snapshot: CalendarSnapshot): Promise<void> {
+  await adapter.write(serializeSnapshot(snapshot));
+}
@@ -0,0 +1,464 @@
+import {
+  CalendarSettings,
+  Case,
+  CaseRecord,
+  ClosureCalendarRecord,
+  ClosureRecord,
+  CourthouseRecord,
+  CourtroomRecord,
+  DeadlineSource,
+  Event,
+  Hearing,
+  HearingOutcome,
+  HearingRecord,
+  HearingSlot,
+  JudgeRecord,
+  OccurrenceException,
+  PersonRecord,
+  Recurrence,
+  RescheduleEntry,
+  TagRecord
+} from '@/types/calendar';
+import { getDefaultTagColor } from '@/lib/tag-colors';
+import { LEGACY_STATUSES } from '@/lib/statuses';
+import { createId } from '@/lib/utils';
+import { defaultSettings } from '@/lib/calendar-store';
+import { CalendarSnapshot, StoredEnvelope } from './types';
+
+// Bump this whenever the persisted shape changes, and register a migration from the previous version
+export const SCHEMA_VERSION = 13;
+
+export class StorageSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSchemaError';
+  }
+}
+
+// Dates are stored as ISO strings, everything else is stored as-is
+type SerializedHearing = Omit<Hearing, 'date'> & { date: string };
+type SerializedCase = Omit<Case, 'hearings' | 'status'> & { hearings: SerializedHearing[] };
+type SerializedEvent = Omit<Event, 'date' | 'children'> & { date: string };
+type SerializedHearingRecord = Omit<
+  HearingRecord,
+  'date' | 'endDate' | 'allDay' | 'type' | 'history' | 'outcome' | 'followUpOf' | 'deadlineSource' | 'courtroomId'
+  | 'judgeId' | 'assigneeIds' | 'recurrence' | 'exceptions'
+> & {
+  date: string;
+};
+type SerializedRecurrence = Omit<Recurrence, 'until'> & { until?: string };
+type SerializedException = Omit<
+  OccurrenceException,
+  'date' | 'endDate' | 'history' | 'outcome' | 'courtroomId' | 'judgeId' | 'assigneeIds'
+> & {
+  date?: string;
+  endDate?: string;
+};
+type SerializedSeriesRecord = SerializedHearingRecord & {
+  recurrence?: SerializedRecurrence;
+  exceptions?: Record<string, SerializedException>;
+};
+type SerializedSpanRecord = SerializedSeriesRecord & { endDate?: string; allDay?: boolean };
+type SerializedSlot = Omit<HearingSlot, 'date' | 'endDate'> & { date: string; endDate?: string };
+type SerializedRescheduleEntry = Omit<RescheduleEntry, 'from' | 'to' | 'changedAt'> & {
+  from: SerializedSlot;
+  to: SerializedSlot;
+  changedAt: string;
+};
+type SerializedHistoryRecord = Omit<SerializedSpanRecord, 'exceptions'> & {
+  history?: SerializedRescheduleEntry[];
+  exceptions?: Record<string, SerializedException & { history?: SerializedRescheduleEntry[] }>;
+};
+type SerializedOutcome = Omit<HearingOutcome, 'recordedAt'> & { recordedAt: string };
+type SerializedOutcomeRecord = Omit<SerializedHistoryRecord, 'exceptions'> & {
+  type?: HearingRecord['type'];
+  outcome?: SerializedOutcome;
+  followUpOf?: string;
+  exceptions?: Record<string, NonNullable<SerializedHistoryRecord['exceptions']>[string] & { outcome?: SerializedOutcome }>;
+};
+type SerializedDeadlineSource = Omit<DeadlineSource, 'triggerDate'> & { triggerDate: string };
+type SerializedDeadlineRecord = SerializedOutcomeRecord & { deadlineSource?: SerializedDeadlineSource };
+type SerializedResourceRecord = Omit<SerializedDeadlineRecord, 'exceptions'> & {
+  courtroomId?: string;
+  judgeId?: string;
+  exceptions?: Record<
+    string,
+    NonNullable<SerializedDeadlineRecord['exceptions']>[string] & { courtroomId?: string; judgeId?: string }
+  >;
+};
+type SerializedTeamRecord = Omit<SerializedResourceRecord, 'exceptions'> & {
+  assigneeIds?: string[];
+  exceptions?: Record<string, NonNullable<SerializedResourceRecord['exceptions']>[string] & { assigneeIds?: string[] }>;
+};
+type SerializedClosure = Omit<ClosureRecord, 'date' | 'endDate'> & { date: string; endDate?: string };
+// Statuses before the workflow was configurable
+type LegacyStatus = 'new' | 'rescheduled' | 'cancelled';
+type SerializedLegacyStatusRecord = Omit<SerializedHistoryRecord, 'status' | 'exceptions'> & {
+  status: LegacyStatus;
+  exceptions?: Record<string, Omit<NonNullable<SerializedHistoryRecord['exceptions']>[string], 'status'> & { status?: LegacyStatus }>;
+};
+type SerializedCaseRecord = Omit<CaseRecord, 'closedAt' | 'assigneeIds'> & { closedAt?: string };
+type SerializedTeamCaseRecord = SerializedCaseRecord & { assigneeIds?: string[] };
+type CaseRecordV2 = Omit<CaseRecord, 'status' | 'closedAt' | 'assigneeIds'>;
+
+// v1: nested cases plus the flattened events list Calendar kept alongside them
+interface PersistedDataV1 {
+  cases: SerializedCase[];
+  events: SerializedEvent[];
+}
+
+// v2: normalized records keyed by id in memory, stored as plain arrays
+interface PersistedDataV2 {
+  cases: CaseRecordV2[];
+  hearings: SerializedHearingRecord[];
+  tags: TagRecord[];
+}
+
+// v3: cases gained a lifecycle status
+interface PersistedDataV3 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedHearingRecord[];
+  tags: TagRecord[];
+}
+
+// v4: user settings; fields are optional so new settings fall back to defaults without a migration
+interface PersistedDataV4 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedHearingRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v5: hearings may repeat, with per-occurrence exceptions
+interface PersistedDataV5 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedSeriesRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v6: hearings may span several days or take the whole day
+interface PersistedDataV6 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedSpanRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v7: hearings keep a history of their date and time changes
+interface PersistedDataV7 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedLegacyStatusRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v8: hearing statuses come from the configurable workflow
+interface PersistedDataV8 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedHistoryRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v9: deadlines alongside hearings, and outcomes recorded after a hearing
+interface PersistedDataV9 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedOutcomeRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v10: deadlines computed from court rules remember the hearing they count from
+interface PersistedDataV10 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedDeadlineRecord[];
+  tags: TagRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v11: court holiday and closure calendars
+interface PersistedDataV11 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedDeadlineRecord[];
+  tags: TagRecord[];
+  closureCalendars: ClosureCalendarRecord[];
+  closures: SerializedClosure[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v12: courthouses, courtrooms and judges, and the courtroom and judge of each hearing
+interface PersistedDataV12 {
+  cases: SerializedCaseRecord[];
+  hearings: SerializedResourceRecord[];
+  tags: TagRecord[];
+  closureCalendars: ClosureCalendarRecord[];
+  closures: SerializedClosure[];
+  courthouses: CourthouseRecord[];
+  courtrooms: CourtroomRecord[];
+  judges: JudgeRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// v13: people at the firm, the team on each case and who covers each hearing
+interface PersistedDataV13 {
+  cases: SerializedTeamCaseRecord[];
+  hearings: SerializedTeamRecord[];
+  tags: TagRecord[];
+  closureCalendars: ClosureCalendarRecord[];
+  closures: SerializedClosure[];
+  courthouses: CourthouseRecord[];
+  courtrooms: CourtroomRecord[];
+  judges: JudgeRecord[];
+  people: PersonRecord[];
+  settings: Partial<CalendarSettings>;
+}
+
+// The shape written by this version of the app
+export type PersistedData = PersistedDataV13;
+
+// Each migration upgrades data written with version `n` to version `n + 1`
+const migrations: Record<number, (data: unknown) => unknown> = {
+  1: (data): PersistedDataV2 => {
+    const v1 = data as PersistedDataV1;
+    const tags: TagRecord[] = [];
+
+    const tagIdFor = (name: string) => {
+      let tag = tags.find(t => t.name === name);
+      if (!tag) {
+        tag = { id: createId('tag'), name, color: getDefaultTagColor(name) };
+        tags.push(tag);
+      }
+      return tag.id;
+    };
+
+    const cases: CaseRecordV2[] = v1.cases.map(caseItem => ({
+      id: caseItem.id,
+      caseNumber: caseItem.caseNumber,
+      title: caseItem.title,
+      description: caseItem.description,
+      tagIds: caseItem.tags.map(tagIdFor)
+    }));
+
+    // v1 only applied hearing adds, edits and deletes to the events list, so that is the truth for hearings
+    const hearings = v1.events.map(event => {
+      let caseRecord = cases.find(c => c.id === event.parentId) ?? cases.find(c => c.caseNumber === event.caseNumber);
+      if (!caseRecord) {
+        caseRecord = {
+          id: createId('case'),
+          caseNumber: event.caseNumber,
+          title: `Case ${event.caseNumber}`,
+          description: event.description,
+          tagIds: []
+        };
+        cases.push(caseRecord);
+      }
+
+      const prefix = `${event.caseNumber}: `;
+      return {
+        id: event.id,
+        caseId: caseRecord.id,
+        title: event.title.startsWith(prefix) ? event.title.slice(prefix.length) : event.title,
+        notes: event.notes,
+        date: event.date,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        status: event.status
+      };
+    });
+
+    return { cases, hearings, tags };
+  },
+  2: (data): PersistedDataV3 => {
+    const v2 = data as PersistedDataV2;
+    return { ...v2, cases: v2.cases.map(caseRecord => ({ ...caseRecord, status: 'open' })) };
+  },
+  3: (data): PersistedDataV4 => ({ ...(data as PersistedDataV3), settings: {} }),
+  // Recurrence is optional, so existing hearings are already valid v5 records
+  4: (data): PersistedDataV5 => data as PersistedDataV4,
+  // Existing hearings are single-day and timed, which is what a missing end date and all-day flag mean
+  5: (data): PersistedDataV6 => data as PersistedDataV5,
+  // Earlier moves were never recorded, so existing hearings start with an empty history
+  6: (data): PersistedDataV7 => data as PersistedDataV7,
+  7: (data): PersistedDataV8 => {
+    const v7 = data as PersistedDataV7;
+    return {
+      ...v7,
+      hearings: v7.hearings.map(hearing => ({
+        ...hearing,
+        status: LEGACY_STATUSES[hearing.status],
+        exceptions: mapValues(hearing.exceptions, ({ status, ...exception }) => ({
+          ...exception,
+          ...(status && { status: LEGACY_STATUSES[status] })
+        }))
+      }))
+    };
+  },
+  // Every existing record is a hearing, and none has an outcome yet
+  8: (data): PersistedDataV9 => data as PersistedDataV8,
+  // Existing deadlines were entered by hand, so none has a rule source
+  9: (data): PersistedDataV10 => data as PersistedDataV9,
+  // No court closures were recorded before closure calendars
+  10: (data): PersistedDataV11 => ({ ...(data as PersistedDataV10), closureCalendars: [], closures: [] }),
+  // Existing hearings have no courtroom or judge
+  11: (data): PersistedDataV12 => ({ ...(data as PersistedDataV11), courthouses: [], courtrooms: [], judges: [] }),
+  // Nobody was assigned before people were tracked, so every case and hearing starts unassigned
+  12: (data): PersistedDataV13 => ({ ...(data as PersistedDataV12), people: [] })
+};
+
+export function migrate(envelope: StoredEnvelope): PersistedData {
+  if (typeof envelope.version !== 'number' || envelope.version < 1) {
+    throw new StorageSchemaError('Stored calendar data has no valid schema version');
+  }
+  if (envelope.version > SCHEMA_VERSION) {
+    throw new StorageSchemaError(
+      `Stored calendar data uses schema v${envelope.version}, but this app only understands up to v${SCHEMA_VERSION}`
+    );
+  }
+
+  let data = envelope.data;
+  for (let version = envelope.version; version < SCHEMA_VERSION; version++) {
+    const upgrade = migrations[version];
+    if (!upgrade) {
+      throw new StorageSchemaError(`No migration registered from schema v${version}`);
+    }
+    data = upgrade(data);
+  }
+  return data as PersistedData;
+}
+
+const byId = <T extends { id: string }>(records: T[]) =>
+  Object.fromEntries(records.map(record => [record.id, record])) as Record<string, T>;
+
+const mapValues = <T, U>(record: Record<string, T> | undefined, map: (value: T) => U) =>
+  record ? Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value)])) : undefined;
+
+const serializeSlot = (slot: HearingSlot): SerializedSlot => ({
+  ...slot,
+  date: slot.date.toISOString(),
+  endDate: slot.endDate?.toISOString()
+});
+
+const deserializeSlot = (slot: SerializedSlot): HearingSlot => ({
+  ...slot,
+  date: new Date(slot.date),
+  endDate: slot.endDate ? new Date(slot.endDate) : undefined
+});
+
+const serializeHistory = (history?: RescheduleEntry[]) => history?.map(entry => ({
+  ...entry,
+  from: serializeSlot(entry.from),
+  to: serializeSlot(entry.to),
+  changedAt: entry.changedAt.toISOString()
+}));
+
+const deserializeHistory = (history?: SerializedRescheduleEntry[]) => history?.map(entry => ({
+  ...entry,
+  from: deserializeSlot(entry.from),
+  to: deserializeSlot(entry.to),
+  changedAt: new Date(entry.changedAt)
+}));
+
+const serializeOutcome = (outcome?: HearingOutcome) =>
+  outcome && { ...outcome, recordedAt: outcome.recordedAt.toISOString() };
+
+const deserializeOutcome = (outcome?: SerializedOutcome) =>
+  outcome && { ...outcome, recordedAt: new Date(outcome.recordedAt) };
+
+const serializeHearing = (hearing: HearingRecord): SerializedTeamRecord => ({
+  ...hearing,
+  date: hearing.date.toISOString(),
+  endDate: hearing.endDate?.toISOString(),
+  history: serializeHistory(hearing.history),
+  outcome: serializeOutcome(hearing.outcome),
+  deadlineSource: hearing.deadlineSource && {
+    ...hearing.deadlineSource,
+    triggerDate: hearing.deadlineSource.triggerDate.toISOString()
+  },
+  recurrence: hearing.recurrence && { ...hearing.recurrence, until: hearing.recurrence.until?.toISOString() },
+  exceptions: mapValues(hearing.exceptions, exception => ({
+    ...exception,
+    date: exception.date?.toISOString(),
+    endDate: exception.endDate?.toISOString(),
+    history: serializeHistory(exception.history),
+    outcome: serializeOutcome(exception.outcome)
+  }))
+});
+
+const deserializeHearing = (hearing: SerializedTeamRecord): HearingRecord => ({
+  ...hearing,
+  date: new Date(hearing.date),
+  endDate: hearing.endDate ? new Date(hearing.endDate) : undefined,
+  history: deserializeHistory(hearing.history),
+  outcome: deserializeOutcome(hearing.outcome),
+  deadlineSource: hearing.deadlineSource && {
+    ...hearing.deadlineSource,
+    triggerDate: new Date(hearing.deadlineSource.triggerDate)
+  },
+  recurrence: hearing.recurrence && {
+    ...hearing.recurrence,
+    until: hearing.recurrence.until ? new Date(hearing.recurrence.until) : undefined
+  },
+  exceptions: mapValues(hearing.exceptions, exception => ({
+    ...exception,
+    date: exception.date ? new Date(exception.date) : undefined,
+    endDate: exception.endDate ? new Date(exception.endDate) : undefined,
+    history: deserializeHistory(exception.history),
+    outcome: deserializeOutcome(exception.outcome)
+  }))
+});
+
+export function serializeSnapshot(snapshot: CalendarSnapshot): StoredEnvelope {
+  const data: PersistedData = {
+    cases: Object.values(snapshot.cases).map(caseRecord => ({
+      ...caseRecord,
+      closedAt: caseRecord.closedAt?.toISOString()
+    })),
+    hearings: Object.values(snapshot.hearings).map(serializeHearing),
+    tags: Object.values(snapshot.tags),
+    closureCalendars: Object.values(snapshot.closureCalendars),
+    closures: Object.values(snapshot.closures).map(closure => ({
+      ...closure,
+      date: closure.date.toISOString(),
+      endDate: closure.endDate?.toISOString()
+    })),
+    courthouses: Object.values(snapshot.courthouses),
+    courtrooms: Object.values(snapshot.courtrooms),
+    judges: Object.values(snapshot.judges),
+    people: Object.values(snapshot.people),
+    settings: snapshot.settings
+  };
+
+  return {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data
+  };
+}
+
+export function deserializeSnapshot(envelope: StoredEnvelope): CalendarSnapshot {
+  return fromPersistedData(migrate(envelope));
+}
+
+// Revives dates and keys records by id; expects data already migrated to the current version
+export function fromPersistedData(data: PersistedData): CalendarSnapshot {
+  return {
+    cases: byId(data.cases.map(caseRecord => ({
+      ...caseRecord,
+      closedAt: caseRecord.closedAt ? new Date(caseRecord.closedAt) : undefined
+    }))),
+    hearings: byId(data.hearings.map(deserializeHearing)),
+    tags: byId(data.tags),
+    closureCalendars: byId(data.closureCalendars),
+    closures: byId(data.closures.map(closure => ({
+      ...closure,
+      date: new Date(closure.date),
+      endDate: closure.endDate ? new Date(closure.endDate) : undefined
+    }))),
+    courthouses: byId(data.courthouses),
+    courtrooms: byId(data.courtrooms),
+    judges: byId(data.judges),
+    people: byId(data.people),
+    settings: { ...defaultSettings, ...data.settings }
+  };
+}
@@ -0,0 +1,19 @@
+import { CalendarState } from '@/types/calendar';
+
+// What gets written to an adapter: the payload plus the schema version it was written with
+export interface StoredEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+// Adapters only move envelopes around; (de)serialization and migrations live in schema.ts
+export interface StorageAdapter {
+  name: string;
+  read: () => Promise<StoredEnvelope | null>;
+  write: (envelope: StoredEnvelope) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// In-memory shape of everything we persist
+export type CalendarSnapshot = CalendarState;
@@ -0,0 +1,28 @@
+// Color palette for tags with hover states
+export const tagColors = {
+  blue: { base: 'bg-blue-100 text-blue-800', hover: 'hover:bg-blue-200 hover:text-blue-900' },
+  green: { base: 'bg-green-100 text-green-800', hover: 'hover:bg-green-200 hover:text-green-900' },
+  yellow: { base: 'bg-yellow-100 text-yellow-800', hover: 'hover:bg-yellow-200 hover:text-yellow-900' },
+  red: { base: 'bg-red-100 text-red-800', hover: 'hover:bg-red-200 hover:text-red-900' },
+  purple: { base: 'bg-purple-100 text-purple-800', hover: 'hover:bg-purple-200 hover:text-purple-900' },
+  pink: { base: 'bg-pink-100 text-pink-800', hover: 'hover:bg-pink-200 hover:text-pink-900' },
+  indigo: { base: 'bg-indigo-100 text-indigo-800', hover: 'hover:bg-indigo-200 hover:text-indigo-900' },
+  orange: { base: 'bg-orange-100 text-orange-800', hover: 'hover:bg-orange-200 hover:text-orange-900' },
+  teal: { base: 'bg-teal-100 text-teal-800', hover: 'hover:bg-teal-200 hover:text-teal-900' },
+  cyan: { base: 'bg-cyan-100 text-cyan-800', hover: 'hover:bg-cyan-200 hover:text-cyan-900' }
+};
+
+export type TagColor = keyof typeof tagColors;
+
+export const tagColorNames = Object.keys(tagColors) as TagColor[];
+
+// Tags without an explicit color get a stable one derived from their name
+export const getDefaultTagColor = (tag: string): TagColor => {
+  const hash = tag.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return tagColorNames[hash % tagColorNames.length];
+};
+
+export const getTagColorClasses = (color: string) => {
+  const colorSet = tagColors[color as TagColor] ?? tagColors.blue;
+  return `${colorSet.base} ${colorSet.hover}`;
+};
@@ -0,0 +1,90 @@
+import { Event } from '@/types/calendar';
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (totalMinutes: number) => {
+  const clamped = Math.max(0, Math.min(24 * 60 - 1, totalMinutes));
+  const hours = Math.floor(clamped / 60);
+  const minutes = clamped % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+export interface PositionedEvent {
+  event: Event;
+  start: number;
+  end: number;
+  column: number;
+  columns: number;
+}
+
+// Hearings with a missing or inverted end time still get a visible block
+const MIN_DURATION = 15;
+
+// Lays out one day's events so overlapping ones sit side by side: events are grouped into clusters of
+// transitively overlapping events, and each event takes the first free column within its cluster
+export const layoutDayEvents = (events: Event[]): PositionedEvent[] => {
+  const sorted = events
+    .map(event => {
+      const start = timeToMinutes(event.startTime);
+      return { event, start, end: Math.max(timeToMinutes(event.endTime), start + MIN_DURATION) };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const positioned: PositionedEvent[] = [];
+  let cluster: PositionedEvent[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach(item => {
+      item.columns = columnEnds.length;
+    });
+    positioned.push(...cluster);
+    cluster = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach(({ event, start, end }) => {
+    if (start >= clusterEnd) {
+      closeCluster();
+    }
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(end);
+    } else {
+      columnEnds[column] = end;
+    }
+
+    cluster.push({ event, start, end, column, columns: 1 });
+    clusterEnd = Math.max(clusterEnd, end);
+  });
+  closeCluster();
+
+  return positioned;
+};
+
+// Visible hour range: business hours by default, widened to fit any event outside them
+export const getHourRange = (events: Event[], defaultStart = 8, defaultEnd = 18) => {
+  let startHour = defaultStart;
+  let endHour = defaultEnd;
+
+  events.forEach(event => {
+    startHour = Math.min(startHour, Math.floor(timeToMinutes(event.startTime) / 60));
+    endHour = Math.max(endHour, Math.ceil(timeToMinutes(event.endTime) / 60));
+  });
+
+  return { startHour, endHour: Math.min(endHour, 24) };
+};
+
+export const formatTime12Hour = (time24: string) => {
+  const [hours, minutes] = time24.split(':');
+  const hour24 = parseInt(hours, 10);
+  const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
+  const ampm = hour24 >= 12 ? 'PM' : 'AM';
+  return `${hour12}:${minutes} ${ampm}`;
+};
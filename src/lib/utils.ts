@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Unique enough for client-side records; several ids can be created in the same millisecond
+export function createId(prefix = "") {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+  return prefix ? `${prefix}-${id}` : id
+}
@@ -0,0 +1,288 @@
+import type { HearingStatus } from '@/lib/statuses';
+
+// Repeat rule for a hearing series; monthlyWeekday repeats on the start date's Nth weekday (e.g. 2nd Tuesday)
+export interface Recurrence {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'monthlyWeekday';
+  interval: number;
+  // Last day of the series (inclusive); either this or count ends it, neither means it keeps going
+  until?: Date;
+  count?: number;
+}
+
+// Every hearing status; defined with its label, color, icon and allowed transitions in lib/statuses
+export type { HearingStatus };
+
+// Why a hearing moved; continuances are tracked separately from other moves
+export type RescheduleReason = 'continuance' | 'court' | 'conflict' | 'counsel' | 'client' | 'other';
+
+// The date and time part of a hearing
+export type HearingSlot = Pick<Hearing, 'date' | 'endDate' | 'allDay' | 'startTime' | 'endTime'>;
+
+// One date or time change of a hearing, oldest first in a hearing's history
+export interface RescheduleEntry {
+  from: HearingSlot;
+  to: HearingSlot;
+  reason: RescheduleReason;
+  note?: string;
+  // Name from the settings at the time of the change; empty when none was set
+  changedBy: string;
+  changedAt: Date;
+}
+
+// What came of a hearing that took place
+export type OutcomeResult = 'granted' | 'denied' | 'partial' | 'advisement' | 'continued' | 'settled' | 'dismissed' | 'other';
+
+export interface HearingOutcome {
+  result: OutcomeResult;
+  // The ruling in a sentence or two, and what the firm has to do about it
+  summary: string;
+  nextSteps: string;
+  recordedBy: string;
+  recordedAt: Date;
+}
+
+// Deadlines are kept alongside hearings and share their fields; they never occupy a courtroom slot
+export type EventType = 'hearing' | 'deadline';
+
+// How a deadline rule counts days: every calendar day, or only days the court is open
+export type DeadlineDayUnit = 'calendar' | 'court';
+
+// One deadline computed from a trigger hearing, e.g. "Opposition due 9 court days before the hearing"
+export interface DeadlineRule {
+  id: string;
+  name: string;
+  // Days after the hearing; negative counts back from it
+  offset: number;
+  unit: DeadlineDayUnit;
+  // Where a deadline that lands on a closed day moves to
+  roll: 'forward' | 'backward';
+}
+
+export interface DeadlineRuleSet {
+  id: string;
+  name: string;
+  description: string;
+  rules: DeadlineRule[];
+}
+
+// Links a generated deadline to the hearing and rule it was computed from
+export interface DeadlineSource {
+  // Event id of the trigger hearing; an occurrence id for a hearing in a series
+  triggerId: string;
+  ruleSetId: string;
+  ruleId: string;
+  // Trigger date the deadline was last computed from; a different date means the hearing moved
+  triggerDate: Date;
+}
+
+// Per-occurrence changes to a series, keyed by the occurrence's original date (yyyy-MM-dd)
+export interface OccurrenceException {
+  // Removed from the series entirely
+  skipped?: boolean;
+  title?: string;
+  notes?: string;
+  date?: Date;
+  endDate?: Date;
+  allDay?: boolean;
+  startTime?: string;
+  endTime?: string;
+  status?: Hearing['status'];
+  sequence?: number;
+  history?: RescheduleEntry[];
+  outcome?: HearingOutcome;
+  // An empty id means this occurrence has no courtroom or judge although the series does
+  courtroomId?: string;
+  judgeId?: string;
+  // An empty list means this occurrence is covered by the case's team although the series is not
+  assigneeIds?: string[];
+}
+
+export interface Hearing {
+  id: string;
+  title: string;
+  notes: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  // Last day of a multi-day hearing such as a trial (inclusive); the times apply to every day
+  endDate?: Date;
+  // Takes the whole day or days; the times are then 00:00-23:59
+  allDay?: boolean;
+  status: HearingStatus;
+  // Absent for hearings
+  type?: EventType;
+  // Bumped whenever the date or time changes, so calendar clients pick up the update
+  sequence?: number;
+  history?: RescheduleEntry[];
+  outcome?: HearingOutcome;
+  // Event id of the hearing whose outcome this hearing or deadline follows up on
+  followUpOf?: string;
+  deadlineSource?: DeadlineSource;
+  courtroomId?: string;
+  judgeId?: string;
+  // People covering this hearing instead of the case's team; absent or empty means the case's team
+  assigneeIds?: string[];
+  recurrence?: Recurrence;
+  exceptions?: Record<string, OccurrenceException>;
+}
+
+export type CaseStatus = 'open' | 'closed' | 'archived';
+
+export interface Case {
+  id: string;
+  caseNumber: string;
+  title: string;
+  description: string;
+  tags: string[];
+  status: CaseStatus;
+  // The case's team; covers every hearing that doesn't name its own people
+  assigneeIds?: string[];
+  hearings: Hearing[];
+}
+
+// For compatibility with existing components, we'll flatten cases into events
+export interface Event {
+  id: string;
+  title: string;
+  description: string;
+  notes: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  endDate?: Date;
+  allDay?: boolean;
+  type: EventType;
+  status: HearingStatus;
+  caseNumber: string;
+  sequence?: number;
+  history?: RescheduleEntry[];
+  outcome?: HearingOutcome;
+  followUpOf?: string;
+  deadlineSource?: DeadlineSource;
+  courtroomId?: string;
+  judgeId?: string;
+  assigneeIds?: string[];
+  // Who actually covers the hearing: its own people, or the case's team when it names none
+  coveredBy?: string[];
+  parentId?: string;
+  children?: Event[];
+  // Set on occurrences of a recurring hearing: the series' hearing id and this occurrence's key
+  seriesId?: string;
+  occurrenceKey?: string;
+  recurrence?: Recurrence;
+}
+
+// Normalized records, the single source of truth the views above are derived from
+export interface CaseRecord {
+  id: string;
+  caseNumber: string;
+  title: string;
+  description: string;
+  tagIds: string[];
+  status: CaseStatus;
+  closedAt?: Date;
+  assigneeIds?: string[];
+}
+
+export interface HearingRecord {
+  id: string;
+  caseId: string;
+  title: string;
+  notes: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  endDate?: Date;
+  allDay?: boolean;
+  status: Hearing['status'];
+  type?: EventType;
+  sequence?: number;
+  history?: RescheduleEntry[];
+  outcome?: HearingOutcome;
+  followUpOf?: string;
+  deadlineSource?: DeadlineSource;
+  courtroomId?: string;
+  judgeId?: string;
+  assigneeIds?: string[];
+  recurrence?: Recurrence;
+  exceptions?: Record<string, OccurrenceException>;
+}
+
+export interface TagRecord {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A named list of days the court is closed, e.g. federal holidays or a county's closure schedule
+export interface ClosureCalendarRecord {
+  id: string;
+  name: string;
+}
+
+// A closed day or run of days; closures without a calendar were entered by hand, e.g. a weather day
+export interface ClosureRecord {
+  id: string;
+  calendarId?: string;
+  name: string;
+  date: Date;
+  endDate?: Date;
+}
+
+export interface CourthouseRecord {
+  id: string;
+  name: string;
+  address: string;
+  // IANA zone, e.g. America/Los_Angeles; hearing times are the courthouse's local time
+  timeZone: string;
+}
+
+export interface CourtroomRecord {
+  id: string;
+  courthouseId: string;
+  // e.g. "Dept. 12" or "Courtroom 5B"
+  name: string;
+}
+
+export interface JudgeRecord {
+  id: string;
+  name: string;
+  // Where the judge usually sits; picking the judge in EventForm fills it in
+  courtroomId?: string;
+}
+
+export type PersonRole = 'attorney' | 'paralegal';
+
+// Someone at the firm who covers hearings; the color marks their hearings when calendars are overlaid
+export interface PersonRecord {
+  id: string;
+  name: string;
+  role: PersonRole;
+  color: string;
+}
+
+export type CalendarView = 'weekly' | 'month' | 'lanes' | 'list';
+
+// User preferences that travel with the calendar data
+export interface CalendarSettings {
+  view: CalendarView;
+  // Shown in the header of generated PDFs
+  firmName: string;
+  // Recorded as who made a change in reschedule history
+  userName: string;
+  // The person "My hearings" shows; empty until the user picks themselves under People
+  personId: string;
+}
+
+export interface CalendarState {
+  cases: Record<string, CaseRecord>;
+  hearings: Record<string, HearingRecord>;
+  tags: Record<string, TagRecord>;
+  closureCalendars: Record<string, ClosureCalendarRecord>;
+  closures: Record<string, ClosureRecord>;
+  courthouses: Record<string, CourthouseRecord>;
+  courtrooms: Record<string, CourtroomRecord>;
+  judges: Record<string, JudgeRecord>;
+  people: Record<string, PersonRecord>;
+  settings: CalendarSettings;
+}